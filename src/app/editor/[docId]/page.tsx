@@ -0,0 +1,44 @@
+'use client';
+
+import { FileQuestion } from 'lucide-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { DndProvider } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import { DocumentHeader } from '../components/DocumentHeader';
+import { Editor } from '../components/Editor';
+import { IntegrityCheckAlert } from '../components/IntegrityCheckAlert';
+import { EditorProvider } from '../context/EditorContext';
+import { useWorkspace } from '../hooks';
+
+export default function DocumentPage() {
+    const { docId } = useParams<{ docId: string }>();
+    const { getDocument } = useWorkspace();
+
+    const document = getDocument(docId);
+
+    if (!document) {
+        return (
+            <div className="flex flex-col items-center justify-center text-center text-muted-foreground py-12">
+                <FileQuestion className="w-12 h-12 mb-4 opacity-50" />
+                <p className="text-lg font-medium">Document not found</p>
+                <Link href="/editor" className="text-sm mt-1 text-primary underline underline-offset-2">
+                    Open another document
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        // Keyed by document so each one gets its own history and cursor
+        <EditorProvider key={docId} docId={docId}>
+            <DndProvider backend={HTML5Backend}>
+                <div className="space-y-4">
+                    <DocumentHeader document={document} />
+                    <IntegrityCheckAlert />
+                    <Editor />
+                </div>
+            </DndProvider>
+        </EditorProvider>
+    );
+}
@@ -1,22 +1,58 @@
 import { Button } from '@/components';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Block, BlockType, Path } from '@/editor/lib';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuShortcut,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Block, EditorCommand, getActionShortcut, isCodeBlock, isPageBlock, KeyBinding } from '@/editor/lib';
 import { MoreVertical } from 'lucide-react';
 
 type BlockActionsProps = Readonly<{
     block: Block;
-    path: Path;
-    parentPath: Path | null;
-    index: number;
-    insertBlock: (parentPath: Path | null, index: number, type: BlockType) => void;
-    deleteBlock: (parentPath: Path | null, index: number) => void;
+    toggleLink?: () => void;
+    isLinked?: boolean;
+    editProperties: () => void;
+    commands: EditorCommand[];
+    keyBindings: KeyBinding[];
+    runCommand: (id: string) => void;
 }>;
 
+/**
+ * Group the commands that have a `group` by it, keeping registration order
+ */
+const groupCommands = (commands: EditorCommand[]): Map<string, EditorCommand[]> => {
+    const groups = new Map<string, EditorCommand[]>();
+    commands.forEach((command) => {
+        if (command.group) groups.set(command.group, [...(groups.get(command.group) ?? []), command]);
+    });
+    return groups;
+};
+
 /**
  * Pure presentation component for block actions dropdown menu.
- * Provides options to add child blocks, add sibling blocks, and delete the block.
+ * Lists the registered commands that apply to the block, each group in its own submenu (add child, add below, turn into,
+ * language, sort children), followed by linking the selected text and editing properties. Commands that move blocks
+ * to the trash are shown as destructive.
  */
-export const BlockActions = ({ block, path, parentPath, index, insertBlock, deleteBlock }: BlockActionsProps) => {
+export const BlockActions = ({ block, toggleLink, isLinked = false, editProperties, commands, keyBindings, runCommand }: BlockActionsProps) => {
+
+    const renderCommand = ({ id, label, icon: Icon, trash }: EditorCommand) => {
+        const shortcut = getActionShortcut(keyBindings, id);
+        return (
+            <DropdownMenuItem key={id} onClick={() => runCommand(id)} className={trash ? 'text-destructive' : undefined}>
+                {Icon && <Icon className="w-4 h-4" />}
+                {label}
+                {shortcut && <DropdownMenuShortcut>{shortcut}</DropdownMenuShortcut>}
+            </DropdownMenuItem>
+        );
+    };
+
     return (
         <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -25,14 +61,21 @@ export const BlockActions = ({ block, path, parentPath, index, insertBlock, dele
                 </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => insertBlock(path, block.children?.length ?? 0, 'text')}>Add child text block</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => insertBlock(path, block.children?.length ?? 0, 'todo')}>Add child todo</DropdownMenuItem>
+                {[...groupCommands(commands)].map(([group, groupedCommands]) => (
+                    <DropdownMenuSub key={group}>
+                        <DropdownMenuSubTrigger>{group}</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>{groupedCommands.map(renderCommand)}</DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                ))}
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => insertBlock(parentPath, index + 1, 'text')}>Add sibling below</DropdownMenuItem>
+                {!isCodeBlock(block) && !isPageBlock(block) && (
+                    <DropdownMenuItem disabled={!toggleLink} onClick={toggleLink}>
+                        {isLinked ? 'Remove link from selection' : 'Link selected text'}
+                    </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={editProperties}>Edit properties</DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => deleteBlock(parentPath, index)} className="text-destructive">
-                    Delete block
-                </DropdownMenuItem>
+                {commands.filter((command) => !command.group).map(renderCommand)}
             </DropdownMenuContent>
         </DropdownMenu>
     );
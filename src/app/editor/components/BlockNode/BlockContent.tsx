@@ -1,25 +1,96 @@
-import { Button, Input } from '@/components';
-import { Block, isTodoBlock } from '@/editor/lib';
+import { Button, Input, Textarea } from '@/components';
+import { BlockEditElement } from '@/editor/hooks';
+import { Block, getMarkedSegments, HeadingLevel, InlineMark, isCodeBlock, isHeadingBlock, isPageBlock, isTodoBlock, WORKSPACE_CONFIG } from '@/editor/lib';
+import { Pencil } from 'lucide-react';
+import Link from 'next/link';
+import { ReactNode } from 'react';
+
+const HEADING_CLASSES: Record<HeadingLevel, string> = {
+    1: 'text-2xl md:text-2xl font-bold',
+    2: 'text-xl md:text-xl font-semibold',
+    3: 'text-lg md:text-lg font-semibold',
+};
+
+/**
+ * Wrap text in the element for a single inline mark
+ */
+const renderMark = (mark: InlineMark, children: ReactNode): ReactNode => {
+    switch (mark.type) {
+        case 'bold':
+            return <strong>{children}</strong>;
+        case 'italic':
+            return <em>{children}</em>;
+        case 'code':
+            return <code className="rounded bg-muted px-1 font-mono text-[0.9em]">{children}</code>;
+        case 'link':
+            return (
+                <span className="text-primary underline underline-offset-2" title={mark.href}>
+                    {children}
+                </span>
+            );
+    }
+};
+
+/**
+ * A highlighted range of block content, e.g. a search match
+ */
+export type ContentHighlight = {
+    start: number;
+    end: number;
+    isActive: boolean;
+};
+
+/**
+ * Render block content with its inline marks and highlights applied
+ */
+const MarkedContent = ({ content, marks = [], highlights = [] }: Readonly<{ content: string; marks?: InlineMark[]; highlights?: ContentHighlight[] }>) => {
+    if (marks.length === 0 && highlights.length === 0) return <>{content}</>;
+
+    const boundaries = highlights.flatMap((highlight) => [highlight.start, highlight.end]);
+
+    return (
+        <>
+            {getMarkedSegments(content, marks, boundaries).map((segment) => {
+                const marked = segment.marks.reduce<ReactNode>((children, mark) => renderMark(mark, children), segment.text);
+                const highlight = highlights.find((candidate) => candidate.start <= segment.start && candidate.end >= segment.end);
+                return highlight ? (
+                    <mark key={segment.start} className={`rounded-sm text-inherit ${highlight.isActive ? 'bg-amber-400 dark:bg-amber-600' : 'bg-amber-200 dark:bg-amber-800'}`}>
+                        {marked}
+                    </mark>
+                ) : (
+                    <span key={segment.start}>{marked}</span>
+                );
+            })}
+        </>
+    );
+};
 
 type BlockContentProps = Readonly<{
     isEditing: boolean;
     block: Block;
+    pageTitle?: string;
+    highlights?: ContentHighlight[];
     localContent: string;
-    inputRef: React.RefObject<HTMLInputElement | null>;
-    handleChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    handleBlur: (e: React.FocusEvent<HTMLInputElement>) => void;
-    handleKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
-    handleSelectionChange: (e: React.SyntheticEvent<HTMLInputElement>) => void;
+    inputRef: React.RefObject<BlockEditElement | null>;
+    handleChange: (e: React.ChangeEvent<BlockEditElement>) => void;
+    handleBlur: (e: React.FocusEvent<BlockEditElement>) => void;
+    handleKeyDown: (e: React.KeyboardEvent<BlockEditElement>) => void;
+    handleSelectionChange: (e: React.SyntheticEvent<BlockEditElement>) => void;
     onStartEdit: () => void;
 }>;
 
 /**
  * Pure presentation component for block content.
  * Renders either an input (when editing) or a button (when not editing).
+ * Code blocks use a monospace textarea and preserve whitespace when rendered.
+ * Page blocks render their sub-page title as a link that opens the sub-page, with a button to rename it in place.
+ * Highlights (e.g. search matches) are shown while not editing.
  */
 export const BlockContent = ({
     isEditing,
     block,
+    pageTitle,
+    highlights,
     localContent,
     inputRef,
     handleChange,
@@ -28,33 +99,93 @@ export const BlockContent = ({
     handleSelectionChange,
     onStartEdit,
 }: BlockContentProps) => {
+    const headingClasses = isHeadingBlock(block) ? HEADING_CLASSES[block.level ?? 1] : '';
+
+    if (isPageBlock(block) && !isEditing) {
+        return (
+            <div className="group/page flex items-center gap-1 min-w-0">
+                <Link
+                    href={`/editor/${block.pageId}`}
+                    className="block px-2 py-1 rounded font-medium underline decoration-muted-foreground/40 underline-offset-4 hover:bg-accent/30 transition-colors truncate"
+                >
+                    {pageTitle || block.content || WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE}
+                </Link>
+                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover/page:opacity-100 focus-visible:opacity-100" title="Rename page" onClick={onStartEdit}>
+                    <Pencil className="w-3 h-3" />
+                </Button>
+            </div>
+        );
+    }
+
+    if (isEditing && isCodeBlock(block)) {
+        return (
+            <Textarea
+                ref={inputRef as React.RefObject<HTMLTextAreaElement | null>}
+                value={localContent}
+                data-block-id={block.id}
+                onChange={handleChange}
+                onBlur={handleBlur}
+                onKeyDown={handleKeyDown}
+                onSelect={handleSelectionChange}
+                onClick={handleSelectionChange}
+                onKeyUp={handleSelectionChange}
+                spellCheck={false}
+                className="font-mono text-sm md:text-sm whitespace-pre overflow-x-auto [tab-size:4]"
+            />
+        );
+    }
+
     if (isEditing) {
         return (
             <Input
-                ref={inputRef}
+                ref={inputRef as React.RefObject<HTMLInputElement | null>}
                 type="text"
                 value={localContent}
+                data-block-id={block.id}
                 onChange={handleChange}
                 onBlur={handleBlur}
                 onKeyDown={handleKeyDown}
                 onSelect={handleSelectionChange}
                 onClick={handleSelectionChange}
                 onKeyUp={handleSelectionChange}
-                className="h-8"
+                className={headingClasses ? `h-auto ${headingClasses}` : 'h-8'}
             />
         );
     }
 
+    if (isCodeBlock(block)) {
+        return (
+            <Button
+                onClick={onStartEdit}
+                className="relative h-auto w-full justify-start items-start rounded bg-muted/50 px-3 py-2 text-left font-mono text-sm font-normal cursor-text hover:bg-muted"
+                variant="ghost"
+            >
+                <pre className="whitespace-pre overflow-x-auto [tab-size:4]">
+                    {block.content ? (
+                        <MarkedContent content={block.content} highlights={highlights} />
+                    ) : (
+                        <span className="text-muted-foreground italic">Empty code block (click to edit)</span>
+                    )}
+                </pre>
+                <span className="absolute top-1 right-2 text-xs text-muted-foreground">{block.language}</span>
+            </Button>
+        );
+    }
+
     return (
         <Button
             onClick={onStartEdit}
             className={`px-2 py-1 cursor-text rounded hover:bg-accent/30 transition-colors truncate text-left w-full justify-start ${
                 isTodoBlock(block) && block.done ? 'line-through text-muted-foreground' : ''
-            }`}
+            } ${headingClasses && `h-auto ${headingClasses}`}`}
             title={block.content}
             variant="ghost"
         >
-            {block.content || <span className="text-muted-foreground italic">Empty block (click to edit)</span>}
+            {block.content ? (
+                <MarkedContent content={block.content} marks={block.marks} highlights={highlights} />
+            ) : (
+                <span className="text-muted-foreground italic">Empty block (click to edit)</span>
+            )}
         </Button>
     );
 };
@@ -0,0 +1,48 @@
+import { Button } from '@/components';
+import { DueDateStatus, getDueDateStatus } from '@/editor/lib';
+import { CalendarDays, X } from 'lucide-react';
+
+const STATUS_CLASSES: Record<DueDateStatus, string> = {
+    overdue: 'bg-destructive/10 text-destructive',
+    today: 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+    upcoming: 'bg-muted text-muted-foreground',
+};
+
+type BlockDueDateProps = Readonly<{
+    dueDate: string | null;
+    done: boolean;
+    setDueDate: (value: string) => void;
+    clearDueDate: () => void;
+}>;
+
+/**
+ * Pure presentation component for a todo's due date.
+ * Shows an overdue/today/date badge that opens the native date picker, and a button to clear it.
+ * Completed todos are never shown as overdue.
+ */
+export const BlockDueDate = ({ dueDate, done, setDueDate, clearDueDate }: BlockDueDateProps) => {
+    const status = dueDate && !done ? getDueDateStatus(dueDate) : 'upcoming';
+    const label = status === 'overdue' ? `Overdue · ${dueDate}` : status === 'today' ? 'Due today' : dueDate;
+
+    return (
+        <div className={`flex items-center gap-0.5 shrink-0 ${dueDate ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'}`}>
+            <label className={`relative flex items-center gap-1 rounded px-1.5 py-0.5 text-xs cursor-pointer ${STATUS_CLASSES[status]}`} title="Due date">
+                <CalendarDays className="w-3 h-3" />
+                {label && <span>{label}</span>}
+                {/* Transparent native input on top of the badge so clicking it opens the picker */}
+                <input
+                    type="date"
+                    aria-label="Due date"
+                    value={dueDate ?? ''}
+                    onChange={(e) => (e.target.value ? setDueDate(e.target.value) : clearDueDate())}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+            </label>
+            {dueDate && (
+                <Button variant="ghost" size="icon" className="h-5 w-5" title="Clear due date" onClick={clearDueDate}>
+                    <X className="w-3 h-3" />
+                </Button>
+            )}
+        </div>
+    );
+};
@@ -1,12 +1,22 @@
 'use client';
 
 import { Checkbox } from '@/components';
-import { useBlockDragDrop, useBlockEdit, useCursorPosition, useEditor } from '@/editor/hooks';
-import { Block, Path, isTodoBlock } from '@/editor/lib';
-import { FileText, GripVertical } from 'lucide-react';
+import { BlockEditElement, useBlockDragDrop, useBlockEdit, useCursorPosition, useEditor, useSlashMenu, useWorkspace } from '@/editor/hooks';
+import { applyPatch, Block, EditorCommand, getAvailableCommands, findBlockById, getDueDate, getSlashQuery, HeadingLevel, Path, isCodeBlock, isHeadingBlock, isPageBlock, isRangeMarked, isTodoBlock } from '@/editor/lib';
+import { Code, File, FileText, GripVertical, Heading1, Heading2, Heading3 } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { BlockList } from '../BlockList';
 import { BlockActions } from './BlockActions';
-import { BlockContent } from './BlockContent';
+import { BlockContent, ContentHighlight } from './BlockContent';
+import { BlockDueDate } from './BlockDueDate';
+import { BlockProperties } from './BlockProperties';
+import { SlashMenu } from './SlashMenu';
+
+const HEADING_ICONS: Record<HeadingLevel, typeof Heading1> = {
+    1: Heading1,
+    2: Heading2,
+    3: Heading3,
+};
 
 type BlockNodeProps = Readonly<{
     block: Block;
@@ -20,20 +30,119 @@ type BlockNodeProps = Readonly<{
  * Refactored to use extracted hooks for better separation of concerns.
  */
 export const BlockNode = ({ block, path, index, parentPath }: BlockNodeProps) => {
-    const { updateContent, toggleTodo, deleteBlock, insertBlock, moveBlock, setCursorPosition } = useEditor();
+    const {
+        doc,
+        updateContent,
+        revertEdit,
+        toggleTodo,
+        toggleMark,
+        applyTypingShortcut,
+        setProperty,
+        removeProperty,
+        moveBlock,
+        indentBlock,
+        outdentBlock,
+        splitBlock,
+        mergeBlock,
+        cursorPosition,
+        setCursorPosition,
+        focusRequest,
+        requestFocus,
+        focusedBlockId,
+        focusBlock,
+        selectedBlockIds,
+        selectBlock,
+        clearSelection,
+        searchMatches,
+        activeMatchIndex,
+        commands,
+        getCommandContext,
+        runCommand,
+        keyBindings,
+    } = useEditor();
+    const { getDocument } = useWorkspace();
+    const pageTitle = block.pageId ? getDocument(block.pageId)?.title : undefined;
+    // A page block edits its sub-page's title, which may have been renamed elsewhere since the block's text was saved
+    const editedBlock = useMemo(() => (isPageBlock(block) && pageTitle ? { ...block, content: pageTitle } : block), [block, pageTitle]);
 
     // Use extracted hooks for different concerns
     const { setRefs: dragDropRef, opacity: dragOpacity, getDropIndicatorClasses } = useBlockDragDrop(block, path, index, parentPath, moveBlock);
 
-    const editing = useBlockEdit(block, path, updateContent);
+    const editing = useBlockEdit(editedBlock, path, updateContent, { toggleMark, applyTypingShortcut, indentBlock, outdentBlock, splitBlock, mergeBlock, revertEdit, focusRequest, requestFocus, focusBlock, keyBindings });
     const cursor = useCursorPosition(block.id, setCursorPosition);
 
+    // Slash commands typed into an empty block act on the block itself, then leave editing without saving the command text.
+    // The caret stays in the block while it is still there and editable.
+    const availableCommands = getAvailableCommands(commands, getCommandContext(path));
+    const runSlashCommand = ({ id }: EditorCommand) => {
+        editing.cancelEdit();
+        const command = runCommand(id, path);
+        const result = command && findBlockById(applyPatch(doc, command.forward), block.id);
+        if (result && !isPageBlock(result)) requestFocus({ blockId: block.id, selectionStart: 0, selectionEnd: 0 });
+    };
+    const slashQuery = editing.isEditing && block.content === '' && !isCodeBlock(block) && !isPageBlock(block) ? getSlashQuery(editing.localContent) : null;
+    const slashMenu = useSlashMenu(slashQuery, availableCommands, runSlashCommand);
+    const handleKeyDown = (e: React.KeyboardEvent<BlockEditElement>) => {
+        if (!slashMenu.handleKeyDown(e)) editing.handleKeyDown(e);
+    };
+    const [isEditingProperties, setIsEditingProperties] = useState<boolean>(false);
+
+    // Search matches in this block; the active one is scrolled into view
+    const rowRef = useRef<HTMLDivElement>(null);
+    const activeMatch = searchMatches[activeMatchIndex];
+    const highlights: ContentHighlight[] = searchMatches
+        .filter((match) => match.blockId === block.id)
+        .map((match) => ({ start: match.start, end: match.end, isActive: match === activeMatch }));
+    const hasActiveMatch = activeMatch?.blockId === block.id;
+    useEffect(() => {
+        if (hasActiveMatch) rowRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [hasActiveMatch, activeMatch]);
+
     const hasChildren = block.children && block.children.length > 0;
+    const isSelected = selectedBlockIds.includes(block.id);
+    // Keyboard focus is only shown while not editing; the focused block is kept in view as navigation moves it
+    const isFocused = focusedBlockId === block.id && !editing.isEditing;
+    useEffect(() => {
+        if (isFocused) rowRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [isFocused]);
+
+    // Shift-click extends the block selection and Ctrl/Cmd-click toggles this block, instead of starting to edit.
+    // Clicks inside text fields keep their native text selection behavior.
+    const handleSelectClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if ((e.target as HTMLElement).closest('input, textarea')) return;
+
+        if (e.shiftKey || e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            e.stopPropagation();
+            selectBlock(block.id, e.shiftKey ? 'extend' : 'toggle');
+        } else if (selectedBlockIds.length > 0) {
+            clearSelection();
+        }
+    };
     const dropClasses = getDropIndicatorClasses();
+    const HeadingIcon = HEADING_ICONS[block.level ?? 1];
+
+    // The last text selection made in this block, used to link it from the actions menu
+    const selection =
+        cursorPosition?.blockId === block.id && cursorPosition.selectionStart < cursorPosition.selectionEnd && !isCodeBlock(block) ? cursorPosition : null;
+    const isLinked = selection !== null && isRangeMarked(block.marks ?? [], 'link', selection.selectionStart, selection.selectionEnd);
+    const currentLink = selection ? block.marks?.find((mark) => mark.type === 'link' && mark.start <= selection.selectionStart && mark.end > selection.selectionStart) : undefined;
+    const toggleLink = selection
+        ? () => {
+              // Toggling a fully linked selection removes the link, so only ask for a URL when adding one
+              const href = isLinked && currentLink?.type === 'link' ? currentLink.href : globalThis.prompt('Link URL');
+              if (!href) return;
+              toggleMark(path, { type: 'link', start: selection.selectionStart, end: selection.selectionEnd, href });
+          }
+        : undefined;
 
     return (
         <div ref={dragDropRef} style={{ opacity: dragOpacity }} className={`group ${dropClasses}`}>
-            <div className="flex items-center gap-2 p-2 rounded-md hover:bg-accent/50 transition-colors">
+            <div
+                ref={rowRef}
+                onClickCapture={handleSelectClick}
+                className={`flex items-center gap-2 p-2 rounded-md transition-colors ${isSelected ? 'bg-primary/10 ring-1 ring-primary/30' : isFocused ? 'bg-accent/50 ring-1 ring-ring' : 'hover:bg-accent/50'}`}
+            >
                 {/* Drag handle */}
                 <div className="opacity-0 group-hover:opacity-100 transition-opacity cursor-grab active:cursor-grabbing mt-1 shrink-0">
                     <GripVertical className="w-4 h-4 text-muted-foreground" />
@@ -43,6 +152,12 @@ export const BlockNode = ({ block, path, index, parentPath }: BlockNodeProps) =>
                 <div className="flex items-center gap-2 mt-1 shrink-0">
                     {isTodoBlock(block) ? (
                         <Checkbox checked={block.done ?? false} onCheckedChange={() => toggleTodo(path)} />
+                    ) : isHeadingBlock(block) ? (
+                        <HeadingIcon className="w-4 h-4 text-muted-foreground" />
+                    ) : isCodeBlock(block) ? (
+                        <Code className="w-4 h-4 text-muted-foreground" />
+                    ) : isPageBlock(block) ? (
+                        <File className="w-4 h-4 text-muted-foreground" />
                     ) : (
                         <FileText className="w-4 h-4 text-muted-foreground" />
                     )}
@@ -50,28 +165,54 @@ export const BlockNode = ({ block, path, index, parentPath }: BlockNodeProps) =>
 
                 {/* Block content */}
                 <div className="flex-1 min-w-0">
-                    <BlockContent
-                        isEditing={editing.isEditing}
-                        block={block}
-                        localContent={editing.localContent}
-                        inputRef={editing.inputRef}
-                        handleChange={editing.handleChange}
-                        handleBlur={editing.handleBlur}
-                        handleKeyDown={editing.handleKeyDown}
-                        handleSelectionChange={cursor.handleSelectionChange}
-                        onStartEdit={editing.startEdit}
+                    <div className="relative">
+                        <BlockContent
+                            isEditing={editing.isEditing}
+                            block={block}
+                            pageTitle={pageTitle}
+                            highlights={highlights}
+                            localContent={editing.localContent}
+                            inputRef={editing.inputRef}
+                            handleChange={editing.handleChange}
+                            handleBlur={editing.handleBlur}
+                            handleKeyDown={handleKeyDown}
+                            handleSelectionChange={cursor.handleSelectionChange}
+                            onStartEdit={editing.startEdit}
+                        />
+                        {slashMenu.isOpen && (
+                            <SlashMenu items={slashMenu.items} activeIndex={slashMenu.activeIndex} onSelect={runSlashCommand} onHighlight={slashMenu.setActiveIndex} />
+                        )}
+                    </div>
+                    <BlockProperties
+                        properties={block.properties ?? {}}
+                        hiddenBadges={isTodoBlock(block) ? ['dueDate'] : []}
+                        isOpen={isEditingProperties}
+                        onOpenChange={setIsEditingProperties}
+                        setProperty={(key, value) => setProperty(path, key, value)}
+                        removeProperty={(key) => removeProperty(path, key)}
                     />
                 </div>
 
+                {/* Due date badge for todos */}
+                {isTodoBlock(block) && (
+                    <BlockDueDate
+                        dueDate={getDueDate(block)}
+                        done={block.done ?? false}
+                        setDueDate={(value) => setProperty(path, 'dueDate', { kind: 'date', value })}
+                        clearDueDate={() => removeProperty(path, 'dueDate')}
+                    />
+                )}
+
                 {/* Block actions menu */}
                 <div className="opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
                     <BlockActions
                         block={block}
-                        path={path}
-                        parentPath={parentPath}
-                        index={index}
-                        insertBlock={insertBlock}
-                        deleteBlock={deleteBlock}
+                        toggleLink={toggleLink}
+                        isLinked={isLinked}
+                        editProperties={() => setIsEditingProperties(true)}
+                        commands={availableCommands}
+                        keyBindings={keyBindings}
+                        runCommand={(id) => runCommand(id, path)}
                     />
                 </div>
             </div>
@@ -0,0 +1,157 @@
+import { Button, Input, Label } from '@/components';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { BlockProperties as BlockPropertiesType, formatPropertyValue, getPropertyLabel, PROPERTY_CONFIG, PropertyDefinition, PropertyValue } from '@/editor/lib';
+import { X } from 'lucide-react';
+
+type BlockPropertiesProps = Readonly<{
+    properties: BlockPropertiesType;
+    hiddenBadges?: string[];
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    setProperty: (key: string, value: PropertyValue) => void;
+    removeProperty: (key: string) => void;
+}>;
+
+type PropertyFieldProps = Readonly<{
+    propertyKey: string;
+    definition: PropertyDefinition;
+    property: PropertyValue | undefined;
+    setProperty: (key: string, value: PropertyValue) => void;
+    removeProperty: (key: string) => void;
+}>;
+
+/**
+ * Input for a single known property, committing on change (date, enum) or on blur/Enter (string, list).
+ * Empty values remove the property.
+ */
+const PropertyField = ({ propertyKey, definition, property, setProperty, removeProperty }: PropertyFieldProps) => {
+    const id = `property-${propertyKey}`;
+
+    const commitText = (raw: string) => {
+        const text = raw.trim();
+        if (definition.kind === 'list') {
+            const items = text
+                .split(',')
+                .map((item) => item.trim())
+                .filter(Boolean);
+            if (items.length === 0) removeProperty(propertyKey);
+            else setProperty(propertyKey, { kind: 'list', value: items });
+        } else if (text) {
+            setProperty(propertyKey, { kind: 'string', value: text });
+        } else {
+            removeProperty(propertyKey);
+        }
+    };
+
+    const handleTextKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commitText(e.currentTarget.value);
+        }
+    };
+
+    let field: React.ReactNode;
+    if (definition.kind === 'date') {
+        field = (
+            <Input
+                id={id}
+                type="date"
+                value={property?.kind === 'date' ? property.value : ''}
+                onChange={(e) => (e.target.value ? setProperty(propertyKey, { kind: 'date', value: e.target.value }) : removeProperty(propertyKey))}
+                className="h-8"
+            />
+        );
+    } else if (definition.kind === 'enum') {
+        const options = definition.options ?? [];
+        field = (
+            <select
+                id={id}
+                value={property?.kind === 'enum' ? property.value : ''}
+                onChange={(e) => (e.target.value ? setProperty(propertyKey, { kind: 'enum', value: e.target.value, options }) : removeProperty(propertyKey))}
+                className="border-input h-8 w-full rounded-md border bg-transparent px-2 text-sm"
+            >
+                <option value="">—</option>
+                {options.map((option) => (
+                    <option key={option} value={option}>
+                        {option}
+                    </option>
+                ))}
+            </select>
+        );
+    } else {
+        field = (
+            <Input
+                id={id}
+                // Remount when the stored value changes (e.g. after undo) so the uncontrolled input stays in sync
+                key={property ? formatPropertyValue(property) : ''}
+                defaultValue={property ? formatPropertyValue(property) : ''}
+                placeholder={definition.kind === 'list' ? 'Comma-separated' : ''}
+                onBlur={(e) => commitText(e.currentTarget.value)}
+                onKeyDown={handleTextKeyDown}
+                className="h-8"
+            />
+        );
+    }
+
+    return (
+        <div className="grid grid-cols-[6rem_1fr] items-center gap-2">
+            <Label htmlFor={id} className="text-xs text-muted-foreground">
+                {definition.label}
+            </Label>
+            {field}
+        </div>
+    );
+};
+
+/**
+ * Pure presentation component for block properties.
+ * Shows set properties as badges (except those rendered elsewhere in the row) and hosts the property editor popover.
+ */
+export const BlockProperties = ({ properties, hiddenBadges = [], isOpen, onOpenChange, setProperty, removeProperty }: BlockPropertiesProps) => {
+    const entries = Object.entries(properties);
+    const badgeEntries = entries.filter(([key]) => !hiddenBadges.includes(key));
+    const unknownEntries = entries.filter(([key]) => !PROPERTY_CONFIG.KNOWN_PROPERTIES[key]);
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange}>
+            <DropdownMenuTrigger asChild>
+                <button type="button" className="flex flex-wrap gap-1 text-left" aria-label="Edit properties">
+                    {badgeEntries.map(([key, property]) => (
+                        <span key={key} className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                            {getPropertyLabel(key)}: {formatPropertyValue(property)}
+                        </span>
+                    ))}
+                </button>
+            </DropdownMenuTrigger>
+            {/* Stop key events from reaching the menu so typing in fields does not trigger typeahead */}
+            <DropdownMenuContent align="start" className="w-80 p-3 space-y-2" onKeyDown={(e) => e.stopPropagation()}>
+                <DropdownMenuLabel className="px-0">Properties</DropdownMenuLabel>
+                {Object.entries(PROPERTY_CONFIG.KNOWN_PROPERTIES).map(([key, definition]) => (
+                    <PropertyField
+                        key={key}
+                        propertyKey={key}
+                        definition={definition}
+                        property={properties[key]}
+                        setProperty={setProperty}
+                        removeProperty={removeProperty}
+                    />
+                ))}
+                {unknownEntries.length > 0 && (
+                    <>
+                        <DropdownMenuSeparator />
+                        {unknownEntries.map(([key, property]) => (
+                            <div key={key} className="flex items-center justify-between gap-2 text-sm">
+                                <span className="truncate">
+                                    {key}: {formatPropertyValue(property)}
+                                </span>
+                                <Button variant="ghost" size="icon" className="h-6 w-6" title={`Remove ${key}`} onClick={() => removeProperty(key)}>
+                                    <X className="w-3 h-3" />
+                                </Button>
+                            </div>
+                        ))}
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+};
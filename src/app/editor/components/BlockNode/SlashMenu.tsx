@@ -0,0 +1,39 @@
+import { EditorCommand } from '@/editor/lib';
+import { FileText } from 'lucide-react';
+
+type SlashMenuProps = Readonly<{
+    items: EditorCommand[];
+    activeIndex: number;
+    onSelect: (command: EditorCommand) => void;
+    onHighlight: (index: number) => void;
+}>;
+
+/**
+ * Pure presentation component for the slash menu shown under a block being edited.
+ * Entries are chosen on mouse down so the block's input keeps focus (and does not save the typed command on blur).
+ */
+export const SlashMenu = ({ items, activeIndex, onSelect, onHighlight }: SlashMenuProps) => {
+    return (
+        <div role="listbox" aria-label="Slash commands" className="absolute left-0 top-full z-50 mt-1 w-56 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+            {items.map((item, index) => {
+                const Icon = item.icon ?? FileText;
+                return (
+                    <div
+                        key={item.id}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        className={`flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm ${index === activeIndex ? 'bg-accent text-accent-foreground' : ''}`}
+                        onMouseEnter={() => onHighlight(index)}
+                        onMouseDown={(e) => {
+                            e.preventDefault();
+                            onSelect(item);
+                        }}
+                    >
+                        <Icon className="w-4 h-4 text-muted-foreground" />
+                        {item.label}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
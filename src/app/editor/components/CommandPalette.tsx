@@ -0,0 +1,88 @@
+'use client';
+
+import { Input } from '@/components';
+import { useCommandPalette, useEditor } from '@/editor/hooks';
+import { findKeyBinding } from '@/editor/lib';
+import { useEffect } from 'react';
+
+/**
+ * Command palette toggled with `palette.toggle` (Ctrl/Cmd+K by default): a fuzzy-searchable list of every available editor action with its shortcut.
+ * Entries are run on mouse down so the query input keeps focus until the palette closes.
+ */
+export const CommandPalette = () => {
+    const palette = useCommandPalette();
+    const { isOpen, open, close } = palette;
+    const { keyBindings } = useEditor();
+
+    // The binding toggles the palette from anywhere, including while editing a block
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || findKeyBinding(keyBindings, e, 'global')?.action !== 'palette.toggle') return;
+            e.preventDefault();
+            if (isOpen) close();
+            else open();
+        };
+
+        globalThis.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            globalThis.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen, open, close, keyBindings]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/20 pt-24" onMouseDown={close}>
+            <div
+                role="dialog"
+                aria-label="Command palette"
+                className="w-full max-w-lg rounded-lg border bg-popover text-popover-foreground shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="border-b p-2">
+                    <Input
+                        autoFocus
+                        value={palette.query}
+                        onChange={(e) => palette.setQuery(e.target.value)}
+                        onKeyDown={palette.handleKeyDown}
+                        placeholder="Type a command or search..."
+                        aria-label="Search commands"
+                        aria-controls="command-palette-list"
+                    />
+                </div>
+                <div id="command-palette-list" role="listbox" className="max-h-80 overflow-y-auto p-1">
+                    {palette.items.length === 0 ? (
+                        <p className="px-2 py-6 text-center text-sm text-muted-foreground">No matching commands</p>
+                    ) : (
+                        palette.items.map((item, index) => {
+                            const Icon = item.icon;
+                            const isActive = index === palette.activeIndex;
+                            return (
+                                <div
+                                    key={item.id}
+                                    ref={isActive ? (element) => element?.scrollIntoView({ block: 'nearest' }) : undefined}
+                                    role="option"
+                                    aria-selected={isActive}
+                                    className={`flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm ${isActive ? 'bg-accent text-accent-foreground' : ''}`}
+                                    onMouseEnter={() => palette.setActiveIndex(index)}
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        palette.runItem(item);
+                                    }}
+                                >
+                                    {Icon && <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />}
+                                    <span className="truncate">{item.label}</span>
+                                    <span className="ml-auto flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                                        {item.shortcut && <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono">{item.shortcut}</kbd>}
+                                        {item.group}
+                                    </span>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,52 @@
+'use client';
+
+import { Input } from '@/components';
+import { useWorkspace } from '@/editor/hooks';
+import { DocumentMeta, getDocumentAncestry, WORKSPACE_CONFIG } from '@/editor/lib';
+import { ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+
+type DocumentHeaderProps = Readonly<{
+    document: DocumentMeta;
+}>;
+
+/**
+ * Breadcrumbs from the top-level document down to this one, and the editable document title
+ */
+export const DocumentHeader = ({ document }: DocumentHeaderProps) => {
+    const { documents, renameDocument } = useWorkspace();
+    const ancestors = getDocumentAncestry(documents, document.id).slice(1).reverse();
+
+    const commitTitle = (raw: string) => {
+        const title = raw.trim();
+        if (title && title !== document.title) renameDocument(document.id, title);
+    };
+
+    return (
+        <div className="space-y-2">
+            {ancestors.length > 0 && (
+                <nav className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground" aria-label="Breadcrumbs">
+                    {ancestors.map((ancestor) => (
+                        <span key={ancestor.id} className="flex items-center gap-1">
+                            <Link href={`/editor/${ancestor.id}`} className="hover:text-foreground hover:underline underline-offset-2">
+                                {ancestor.title || WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE}
+                            </Link>
+                            <ChevronRight className="w-3 h-3" />
+                        </span>
+                    ))}
+                    <span className="text-foreground">{document.title || WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE}</span>
+                </nav>
+            )}
+            <Input
+                // Remount when renamed elsewhere (e.g. from the sidebar) so the uncontrolled input stays in sync
+                key={document.title}
+                defaultValue={document.title}
+                placeholder={WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE}
+                onBlur={(e) => commitTitle(e.currentTarget.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="h-auto border-none px-0 text-3xl md:text-3xl font-bold shadow-none focus-visible:ring-0"
+                aria-label="Document title"
+            />
+        </div>
+    );
+};
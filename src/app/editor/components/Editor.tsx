@@ -1,7 +1,11 @@
 'use client';
 
-import { useEditor, useKeyboardShortcuts } from '../hooks';
+import { useClipboard, useEditor, useKeyboardShortcuts, useSelectionShortcuts } from '../hooks';
 import {BlockList} from './BlockList';
+import { CommandPalette } from './CommandPalette';
+import { FindBar } from './FindBar';
+import { SelectionToolbar } from './SelectionToolbar';
+import { ShortcutHelp } from './ShortcutHelp';
 import { Toolbar } from './Toolbar';
 
 import { FileQuestion } from 'lucide-react';
@@ -10,6 +14,8 @@ export const Editor = () => {
     const { doc } = useEditor();
 
     useKeyboardShortcuts();
+    useSelectionShortcuts();
+    useClipboard();
 
     return (
         <div className="space-y-4">
@@ -17,7 +23,11 @@ export const Editor = () => {
                 <div className="p-4 border-b bg-muted/30">
                     <Toolbar />
                 </div>
-                <div className="p-6">
+                <div className="p-6 space-y-2">
+                    <FindBar />
+                    <CommandPalette />
+                    <ShortcutHelp />
+                    <SelectionToolbar />
                     {doc.length === 0 ? (
                         <div className="flex flex-col items-center justify-center text-center text-muted-foreground py-12">
                             <FileQuestion className="w-12 h-12 mb-4 opacity-50" />
@@ -0,0 +1,127 @@
+'use client';
+
+import { Button, Input } from '@/components';
+import { useEditor } from '@/editor/hooks';
+import { buildSearchPattern, findKeyBinding, SEARCH_CONFIG, SearchOptions } from '@/editor/lib';
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, WholeWord, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+const OPTION_TOGGLES: { key: keyof SearchOptions; title: string; icon: typeof Regex }[] = [
+    { key: 'caseSensitive', title: 'Match case', icon: CaseSensitive },
+    { key: 'wholeWord', title: 'Match whole word', icon: WholeWord },
+    { key: 'regex', title: 'Use regular expression', icon: Regex },
+];
+
+/**
+ * Find and replace bar, shown while a search is open (`search.open`, Ctrl/Cmd+F by default).
+ * Enter and Shift+Enter step through matches, Escape closes the bar.
+ * Replace all is a single undoable command.
+ */
+export const FindBar = () => {
+    const { search, searchMatches, activeMatchIndex, setSearch, setActiveMatchIndex, replaceMatch, replaceAllMatches, keyBindings } = useEditor();
+    const [replacement, setReplacement] = useState<string>('');
+    const queryRef = useRef<HTMLInputElement>(null);
+
+    // The find binding opens the bar, or jumps back to the query while it is open
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || findKeyBinding(keyBindings, e, 'global')?.action !== 'search.open') return;
+            e.preventDefault();
+            if (search) {
+                queryRef.current?.focus();
+                queryRef.current?.select();
+            } else {
+                setSearch({ query: '', options: SEARCH_CONFIG.DEFAULT_OPTIONS });
+            }
+        };
+
+        globalThis.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            globalThis.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [search, setSearch, keyBindings]);
+
+    if (!search) return null;
+
+    const matchCount = searchMatches.length;
+    const isInvalid = search.query !== '' && buildSearchPattern(search.query, search.options) === null;
+    const status = isInvalid ? 'Invalid pattern' : matchCount > 0 ? `${activeMatchIndex + 1} of ${matchCount}` : search.query ? 'No results' : '';
+
+    const step = (direction: 1 | -1) => {
+        if (matchCount > 0) setActiveMatchIndex((activeMatchIndex + direction + matchCount) % matchCount);
+    };
+
+    const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            step(e.shiftKey ? -1 : 1);
+        } else if (e.key === 'Escape') {
+            setSearch(null);
+        }
+    };
+
+    const handleReplaceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            replaceMatch(activeMatchIndex, replacement);
+        } else if (e.key === 'Escape') {
+            setSearch(null);
+        }
+    };
+
+    return (
+        <div role="search" className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/30 p-2">
+            <Input
+                ref={queryRef}
+                autoFocus
+                value={search.query}
+                onChange={(e) => setSearch({ ...search, query: e.target.value })}
+                onKeyDown={handleQueryKeyDown}
+                placeholder="Find"
+                aria-label="Find"
+                aria-invalid={isInvalid}
+                className="h-8 w-48"
+            />
+            {OPTION_TOGGLES.map(({ key, title, icon: Icon }) => (
+                <Button
+                    key={key}
+                    variant={search.options[key] ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="h-8 w-8"
+                    title={title}
+                    aria-pressed={search.options[key]}
+                    onClick={() => setSearch({ ...search, options: { ...search.options, [key]: !search.options[key] } })}
+                >
+                    <Icon className="w-4 h-4" />
+                </Button>
+            ))}
+            <span className="min-w-20 text-xs text-muted-foreground" aria-live="polite">
+                {status}
+            </span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Previous match (Shift+Enter)" disabled={matchCount === 0} onClick={() => step(-1)}>
+                <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Next match (Enter)" disabled={matchCount === 0} onClick={() => step(1)}>
+                <ChevronDown className="w-4 h-4" />
+            </Button>
+            <Input
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                onKeyDown={handleReplaceKeyDown}
+                placeholder="Replace"
+                aria-label="Replace"
+                className="h-8 w-48"
+            />
+            <Button variant="ghost" size="sm" disabled={matchCount === 0} onClick={() => replaceMatch(activeMatchIndex, replacement)}>
+                Replace
+            </Button>
+            <Button variant="ghost" size="sm" disabled={matchCount === 0} onClick={() => replaceAllMatches(replacement)}>
+                Replace all
+            </Button>
+            <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" title="Close (Escape)" onClick={() => setSearch(null)}>
+                <X className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+};
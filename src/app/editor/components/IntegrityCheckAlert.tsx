@@ -2,23 +2,24 @@
 
 import { Button } from '@/components';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { useIntegrityCheck } from '@/editor/hooks';
-import { clearEditorState } from '@/editor/lib';
+import { useEditor, useIntegrityCheck } from '@/editor/hooks';
+import { clearWorkspace, saveEditorState } from '@/editor/lib';
 import { AlertTriangle } from 'lucide-react';
 
 export const IntegrityCheckAlert = () => {
     const { errors, dismissedErrors, dismissErrors } = useIntegrityCheck();
+    const { docId, doc } = useEditor();
 
     const handleResetHistory = () => {
         if (confirm('Reset undo/redo history? This will keep your current document but clear all undo/redo.')) {
-            clearEditorState();
+            saveEditorState(doc, [], -1, null, docId);
             globalThis.window.location.reload();
         }
     };
 
     const handleResetAll = () => {
-        if (confirm('  Reset everything? This will delete all your data and history. This cannot be undone!')) {
-            clearEditorState();
+        if (confirm('  Reset everything? This will delete all your documents and history. This cannot be undone!')) {
+            clearWorkspace();
             globalThis.window.location.reload();
         }
     };
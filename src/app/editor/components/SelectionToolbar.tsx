@@ -0,0 +1,49 @@
+'use client';
+
+import { Button } from '@/components';
+import { useEditor } from '@/editor/hooks';
+import { getActionShortcut } from '@/editor/lib';
+import { ArrowDown, ArrowUp, CheckSquare, IndentDecrease, IndentIncrease, Trash2, X } from 'lucide-react';
+
+/**
+ * Batch actions for the selected blocks. Each button applies one compound command, undone in a single step.
+ * Tooltips show the keys currently bound to the matching `selection` action.
+ */
+export const SelectionToolbar = () => {
+    const { selectedPaths, clearSelection, deleteBlocks, toggleTodos, indentBlocks, outdentBlocks, moveBlocks, keyBindings } = useEditor();
+
+    if (selectedPaths.length === 0) return null;
+
+    const getTitle = (label: string, action: string) => {
+        const shortcut = getActionShortcut(keyBindings, action);
+        return shortcut ? `${label} (${shortcut})` : label;
+    };
+
+    return (
+        <div className="flex items-center gap-1 rounded-md border bg-muted/50 px-2 py-1 text-sm">
+            <span className="mr-2 font-medium">{selectedPaths.length} selected</span>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Toggle done', 'selection.toggleTodos')} onClick={() => toggleTodos(selectedPaths)}>
+                <CheckSquare className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Move up', 'selection.moveUp')} onClick={() => moveBlocks(selectedPaths, 'up')}>
+                <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Move down', 'selection.moveDown')} onClick={() => moveBlocks(selectedPaths, 'down')}>
+                <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Indent', 'selection.indent')} onClick={() => indentBlocks(selectedPaths)}>
+                <IndentIncrease className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Outdent', 'selection.outdent')} onClick={() => outdentBlocks(selectedPaths)}>
+                <IndentDecrease className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" title={getTitle('Delete', 'selection.delete')} onClick={() => deleteBlocks(selectedPaths)}>
+                <Trash2 className="w-4 h-4" />
+            </Button>
+            <div className="w-px h-5 bg-border mx-1" />
+            <Button variant="ghost" size="icon" className="h-7 w-7" title={getTitle('Clear selection', 'selection.clear')} onClick={clearSelection}>
+                <X className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+};
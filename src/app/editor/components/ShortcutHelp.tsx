@@ -0,0 +1,146 @@
+'use client';
+
+import { Button } from '@/components';
+import { useEditor, useWorkspace } from '@/editor/hooks';
+import { findKeyBinding, formatShortcut, getShortcutFromEvent, KeyBinding, KeymapScope } from '@/editor/lib';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const SCOPE_TITLES: Record<KeymapScope, string> = {
+    global: 'Global',
+    selection: 'Selected blocks',
+    editing: 'While editing a block',
+};
+
+/**
+ * Keyboard shortcut help toggled with `help.toggle` (Ctrl/Cmd+/ by default): every key binding grouped by scope,
+ * with conflicting keys flagged. A binding can be changed by pressing the new keys, removed, or reset to its default;
+ * changes are saved with the workspace.
+ */
+export const ShortcutHelp = () => {
+    const { keyBindings, keymapConflicts } = useEditor();
+    const { keymapOverrides, setKeyBinding, resetKeyBinding } = useWorkspace();
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    // The action waiting for its new keys
+    const [recording, setRecording] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || recording) return;
+            if (findKeyBinding(keyBindings, e, 'global')?.action === 'help.toggle') {
+                e.preventDefault();
+                setIsOpen((open) => !open);
+            } else if (isOpen && e.key === 'Escape') {
+                setIsOpen(false);
+            }
+        };
+
+        globalThis.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            globalThis.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [keyBindings, isOpen, recording]);
+
+    // While recording, the next key combination is captured before any other handler sees it; Escape cancels
+    useEffect(() => {
+        if (!recording) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            const shortcut = getShortcutFromEvent(e);
+            if (!shortcut) return;
+            setKeyBinding(recording, [shortcut]);
+            setRecording(null);
+        };
+
+        globalThis.addEventListener('keydown', handleKeyDown, true);
+
+        return () => {
+            globalThis.removeEventListener('keydown', handleKeyDown, true);
+        };
+    }, [recording, setKeyBinding]);
+
+    if (!isOpen) return null;
+
+    const close = () => {
+        setIsOpen(false);
+        setRecording(null);
+    };
+
+    const getConflictLabels = ({ action }: KeyBinding): string[] => {
+        const actions = new Set(keymapConflicts.filter((conflict) => conflict.actions.includes(action)).flatMap((conflict) => conflict.actions));
+        return keyBindings.filter((binding) => binding.action !== action && actions.has(binding.action)).map((binding) => binding.label);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/20 pt-24" onMouseDown={close}>
+            <div
+                role="dialog"
+                aria-label="Keyboard shortcuts"
+                className="w-full max-w-lg rounded-lg border bg-popover text-popover-foreground shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between border-b px-3 py-2">
+                    <span className="text-sm font-medium">Keyboard shortcuts</span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Close" onClick={close}>
+                        <X className="w-3 h-3" />
+                    </Button>
+                </div>
+                <div className="max-h-96 overflow-y-auto p-2 space-y-3">
+                    {(Object.keys(SCOPE_TITLES) as KeymapScope[]).map((scope) => (
+                        <div key={scope}>
+                            <p className="px-2 pb-1 text-xs font-medium text-muted-foreground">{SCOPE_TITLES[scope]}</p>
+                            {keyBindings
+                                .filter((binding) => binding.scope === scope)
+                                .map((binding) => {
+                                    const conflicts = getConflictLabels(binding);
+                                    const isRecording = recording === binding.action;
+                                    return (
+                                        <div key={binding.action} className="flex items-center gap-2 rounded-sm px-2 py-1 text-sm hover:bg-accent/50">
+                                            <span className="truncate">{binding.label}</span>
+                                            {conflicts.length > 0 && (
+                                                <span title={`Also bound to: ${conflicts.join(', ')}`}>
+                                                    <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-destructive" />
+                                                </span>
+                                            )}
+                                            <span className="ml-auto flex shrink-0 items-center gap-1 text-xs text-muted-foreground">
+                                                {isRecording ? (
+                                                    <span>Press keys…</span>
+                                                ) : binding.keys.length === 0 ? (
+                                                    <span>Unbound</span>
+                                                ) : (
+                                                    binding.keys.map((keys) => (
+                                                        <kbd key={keys} className="rounded border bg-muted px-1.5 py-0.5 font-mono">
+                                                            {formatShortcut(keys)}
+                                                        </kbd>
+                                                    ))
+                                                )}
+                                                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setRecording(isRecording ? null : binding.action)}>
+                                                    {isRecording ? 'Cancel' : 'Change'}
+                                                </Button>
+                                                {binding.keys.length > 0 && (
+                                                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Remove shortcut" onClick={() => setKeyBinding(binding.action, [])}>
+                                                        <X className="w-3 h-3" />
+                                                    </Button>
+                                                )}
+                                                {keymapOverrides[binding.action] && (
+                                                    <Button variant="ghost" size="icon" className="h-6 w-6" title="Reset to default" onClick={() => resetKeyBinding(binding.action)}>
+                                                        <RotateCcw className="w-3 h-3" />
+                                                    </Button>
+                                                )}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
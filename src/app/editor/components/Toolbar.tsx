@@ -1,16 +1,22 @@
 'use client';
 
 import { Button } from '@/components';
+import { getCompletedTodoPaths } from '@/editor/lib';
 import { useEditor } from '../hooks';
 import { BranchSelector } from './BranchSelector';
+import { TrashMenu } from './TrashMenu';
 
-import { Plus, Undo2 } from 'lucide-react';
+import { Archive, ListX, Plus, Undo2 } from 'lucide-react';
 
 export const Toolbar = () => {
-    const { canUndo, undo, insertBlock, doc } = useEditor();
+    const { canUndo, undo, insertBlock, clearCompleted, archiveCompleted, doc } = useEditor();
+    const hasCompleted = getCompletedTodoPaths(doc, null).length > 0;
 
     const handleInsertText = () => insertBlock(null, doc.length, 'text');
     const handleInsertTodo = () => insertBlock(null, doc.length, 'todo');
+    const handleInsertHeading = () => insertBlock(null, doc.length, 'heading', 1);
+    const handleInsertCode = () => insertBlock(null, doc.length, 'code');
+    const handleInsertPage = () => insertBlock(null, doc.length, 'page');
 
     return (
         <div className="flex items-center justify-end gap-2 pb-4 border-b">
@@ -19,6 +25,13 @@ export const Toolbar = () => {
                     <Undo2 className="w-4 h-4" />
                 </Button>
                 <BranchSelector />
+                <TrashMenu />
+                <Button onClick={() => clearCompleted(null)} disabled={!hasCompleted} variant="ghost" size="icon" title="Clear completed todos">
+                    <ListX className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => archiveCompleted(null)} disabled={!hasCompleted} variant="ghost" size="icon" title="Archive completed todos">
+                    <Archive className="w-4 h-4" />
+                </Button>
 
                 <div className="w-px h-6 bg-border mx-1" />
                 <Button onClick={handleInsertText} variant="ghost" size="sm">
@@ -29,6 +42,18 @@ export const Toolbar = () => {
                     <Plus className="w-4 h-4 mr-1" />
                     Todo
                 </Button>
+                <Button onClick={handleInsertHeading} variant="ghost" size="sm">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Heading
+                </Button>
+                <Button onClick={handleInsertCode} variant="ghost" size="sm">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Code
+                </Button>
+                <Button onClick={handleInsertPage} variant="ghost" size="sm">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Page
+                </Button>
             </div>
         </div>
     );
@@ -0,0 +1,70 @@
+'use client';
+
+import { Button } from '@/components';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useEditor, useWorkspace } from '@/editor/hooks';
+import { getRestorableTrash, getTimeAgo } from '@/editor/lib';
+import { Trash2, X } from 'lucide-react';
+import { useMemo } from 'react';
+
+/**
+ * Toolbar menu listing deleted blocks from every document, newest first.
+ * Selecting an entry restores it into the current document as an undoable insert.
+ * Blocks present in the current document again, e.g. after undoing their deletion, are not listed.
+ */
+export const TrashMenu = () => {
+    const { docId, doc, restoreFromTrash } = useEditor();
+    const { trash, getDocument, removeFromTrash, emptyTrash } = useWorkspace();
+    const entries = useMemo(() => getRestorableTrash(trash, doc), [trash, doc]);
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title={`Trash (${entries.length})`}>
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+                <DropdownMenuLabel>Trash</DropdownMenuLabel>
+                {entries.length === 0 && <p className="px-2 py-1.5 text-sm text-muted-foreground">Nothing deleted yet</p>}
+                {entries.map((entry) => {
+                    const childCount = entry.block.children?.length ?? 0;
+                    const source = entry.docId === docId ? null : (getDocument(entry.docId)?.title ?? 'a deleted document');
+
+                    return (
+                        <DropdownMenuItem key={entry.id} onClick={() => restoreFromTrash(entry.id)} title="Restore">
+                            <div className="flex flex-1 min-w-0 flex-col gap-1">
+                                <span className="truncate font-medium">{entry.block.content || <span className="italic">Empty {entry.block.type}</span>}</span>
+                                <span className="text-xs text-muted-foreground">
+                                    {getTimeAgo(entry.deletedAt)}
+                                    {childCount > 0 && ` · ${childCount} nested`}
+                                    {source && ` · from ${source}`}
+                                </span>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 shrink-0"
+                                title="Delete forever"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    removeFromTrash(entry.id);
+                                }}
+                            >
+                                <X className="w-3 h-3" />
+                            </Button>
+                        </DropdownMenuItem>
+                    );
+                })}
+                {entries.length > 0 && (
+                    <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={emptyTrash} className="text-destructive">
+                            Empty trash
+                        </DropdownMenuItem>
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+};
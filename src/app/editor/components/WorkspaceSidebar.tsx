@@ -0,0 +1,109 @@
+'use client';
+
+import { Button, Input } from '@/components';
+import { useWorkspace } from '@/editor/hooks';
+import { DocumentMeta, WORKSPACE_CONFIG } from '@/editor/lib';
+import { FileText, Pencil, Plus, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+type DocumentItemProps = Readonly<{
+    document: DocumentMeta;
+    isActive: boolean;
+    onRename: (title: string) => void;
+    onDelete: () => void;
+}>;
+
+/**
+ * A single sidebar entry: link to the document, inline rename and delete
+ */
+const DocumentItem = ({ document, isActive, onRename, onDelete }: DocumentItemProps) => {
+    const [isRenaming, setIsRenaming] = useState<boolean>(false);
+
+    const commitRename = (raw: string) => {
+        const title = raw.trim();
+        if (title && title !== document.title) onRename(title);
+        setIsRenaming(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commitRename(e.currentTarget.value);
+        if (e.key === 'Escape') setIsRenaming(false);
+    };
+
+    if (isRenaming) {
+        return (
+            <Input
+                autoFocus
+                defaultValue={document.title}
+                onBlur={(e) => commitRename(e.currentTarget.value)}
+                onKeyDown={handleKeyDown}
+                className="h-8"
+                aria-label="Document title"
+            />
+        );
+    }
+
+    return (
+        <div className={`group/doc flex items-center gap-1 rounded-md pr-1 transition-colors ${isActive ? 'bg-accent' : 'hover:bg-accent/50'}`}>
+            <Link href={`/editor/${document.id}`} className="flex flex-1 min-w-0 items-center gap-2 px-2 py-1.5 text-sm" onDoubleClick={() => setIsRenaming(true)}>
+                <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="truncate">{document.title || WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE}</span>
+            </Link>
+            <div className="flex opacity-0 group-hover/doc:opacity-100 transition-opacity">
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Rename" onClick={() => setIsRenaming(true)}>
+                    <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Delete" onClick={onDelete}>
+                    <Trash2 className="w-3 h-3" />
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Sidebar listing top-level workspace documents with create, rename, delete and switch.
+ * Sub-pages are reached through their page block and breadcrumbs.
+ */
+export const WorkspaceSidebar = () => {
+    const { documents, createDocument, renameDocument, deleteDocument } = useWorkspace();
+    const { docId } = useParams<{ docId?: string }>();
+    const router = useRouter();
+
+    const handleCreate = () => {
+        const document = createDocument();
+        router.push(`/editor/${document.id}`);
+    };
+
+    const handleDelete = (document: DocumentMeta) => {
+        if (!confirm(`Delete "${document.title}"? Its content, sub-pages and history will be lost.`)) return;
+
+        // Leave the document before removing it; /editor opens whichever document remains
+        if (document.id === docId) router.push('/editor');
+        deleteDocument(document.id);
+    };
+
+    return (
+        <nav className="w-56 shrink-0 space-y-1" aria-label="Documents">
+            <div className="flex items-center justify-between px-2 pb-2">
+                <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Documents</span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="New document" onClick={handleCreate}>
+                    <Plus className="w-4 h-4" />
+                </Button>
+            </div>
+            {documents
+                .filter((document) => !document.parentId)
+                .map((document) => (
+                    <DocumentItem
+                        key={document.id}
+                        document={document}
+                        isActive={document.id === docId}
+                        onRename={(title) => renameDocument(document.id, title)}
+                        onDelete={() => handleDelete(document)}
+                    />
+                ))}
+        </nav>
+    );
+};
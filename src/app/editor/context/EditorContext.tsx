@@ -1,40 +1,143 @@
 'use client';
 
-import { useHistoryTree, usePersistence } from '@/editor/hooks';
+import { useHistoryTree, usePersistence, useWorkspace } from '@/editor/hooks';
 import {
+    applyPatch,
+    archiveCompletedCommand,
     BlockArray,
+    BlockSelection,
     BlockType,
+    clearCompletedCommand,
+    cloneBlockWithNewIds,
+    Command,
+    composeCommands,
+    createTrashEntry,
     CursorPosition,
-    deleteBlockCommand,
+    deleteBlocksCommand,
+    EditorCommand,
+    EditorCommandContext,
+    EditorPlugin,
+    findKeymapConflicts,
+    findMatches,
+    flattenBlocks,
+    FocusTarget,
+    getBlockAtPath,
+    getBlockIdsInRange,
+    getBlockPosition,
+    getCommandKeyBindings,
+    getCompletedTodoPaths,
+    getEditorStateKey,
+    getFocusTargetId,
+    getPreviousBlock,
+    getReplacementText,
+    getRestorableTrash,
+    getTopLevelPaths,
+    HeadingLevel,
     HistoryNode,
+    indentBlockCommand,
+    indentBlocksCommand,
+    InlineMark,
     insertBlockCommand,
+    insertBlocksCommand,
+    insertBlockTreeCommand,
+    isCommandAvailable,
+    isPageBlock,
+    KeyBinding,
+    KEYMAP_CONFIG,
+    KeymapConflict,
     loadEditorState,
+    mergeBlockCommand,
     moveBlockCommand,
+    moveBlocksCommand,
+    MoveDirection,
+    outdentBlockCommand,
+    outdentBlocksCommand,
     Path,
+    PropertyValue,
     RedoBranch,
+    registerCommands,
+    removePageBlocks,
+    removePropertyCommand,
+    replaceTextCommand,
+    resolveKeymap,
+    SearchMatch,
+    SearchState,
+    SelectionMode,
+    serializeEditorState,
+    setPropertyCommand,
+    splitBlockCommand,
     STORAGE_CONFIG,
+    toggleMarkCommand,
     toggleTodoCommand,
+    toggleTodosCommand,
+    transactCommands,
+    Transaction,
+    typingShortcutCommand,
+    unregisterCommands,
     updateContentCommand,
 } from '@/editor/lib';
-import { createContext, ReactNode, useCallback, useMemo, useState } from 'react';
+import { CORE_PLUGIN } from '@/editor/plugins';
+import { createContext, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 export type EditorContextType = {
     // State
+    docId: string;
     doc: BlockArray;
     canUndo: boolean;
     canRedo: boolean;
     redoBranches: RedoBranch[];
     cursorPosition: CursorPosition;
+    focusRequest: CursorPosition;
+    focusedBlockId: string | null;
+    selectedBlockIds: string[];
+    selectedPaths: Path[];
+    search: SearchState | null;
+    searchMatches: SearchMatch[];
+    activeMatchIndex: number;
     historyNodes: HistoryNode[];
     currentIndex: number;
 
     // Actions
-    updateContent: (path: Path, content: string) => void;
+    updateContent: (path: Path, content: string, sessionKey?: string) => void;
+    transact: (fn: (transaction: Transaction) => void, label?: string) => boolean;
+    revertEdit: (sessionKey: string) => void;
     toggleTodo: (path: Path) => void;
-    insertBlock: (parentPath: Path | null, index: number, type: BlockType) => void;
-    deleteBlock: (parentPath: Path | null, index: number) => void;
+    toggleMark: (path: Path, mark: InlineMark, pendingContent?: string) => void;
+    applyTypingShortcut: (path: Path, pendingContent: string) => void;
+    setProperty: (path: Path, key: string, value: PropertyValue) => void;
+    removeProperty: (path: Path, key: string) => void;
+    insertBlock: (parentPath: Path | null, index: number, type: BlockType, level?: HeadingLevel) => void;
+    restoreFromTrash: (entryId: string) => void;
     moveBlock: (fromParentPath: Path | null, fromIndex: number, toParentPath: Path | null, toIndex: number) => void;
+    indentBlock: (path: Path, pendingContent?: string) => void;
+    outdentBlock: (path: Path, pendingContent?: string) => void;
+    splitBlock: (path: Path, offset: number, pendingContent?: string) => void;
+    mergeBlock: (path: Path, pendingContent?: string) => void;
+    clearCompleted: (scopePath: Path | null) => void;
+    archiveCompleted: (scopePath: Path | null) => void;
     setCursorPosition: (cursor: CursorPosition) => void;
+    requestFocus: (cursor: CursorPosition) => void;
+    focusBlock: (blockId: string | null) => void;
+    moveFocus: (target: FocusTarget) => void;
+    selectBlock: (blockId: string, mode: SelectionMode) => void;
+    extendSelection: (direction: MoveDirection) => void;
+    clearSelection: () => void;
+    deleteBlocks: (paths: Path[]) => void;
+    toggleTodos: (paths: Path[]) => void;
+    indentBlocks: (paths: Path[]) => void;
+    outdentBlocks: (paths: Path[]) => void;
+    moveBlocks: (paths: Path[], direction: MoveDirection) => void;
+    pasteBlocks: (blocks: BlockArray, afterPath: Path | null) => void;
+    setSearch: (search: SearchState | null) => void;
+    setActiveMatchIndex: (index: number) => void;
+    replaceMatch: (index: number, replacement: string) => void;
+    replaceAllMatches: (replacement: string) => void;
+    commands: EditorCommand[];
+    registerCommands: (commands: EditorCommand[]) => () => void;
+    getCommandContext: (path?: Path | null) => EditorCommandContext;
+    runCommand: (id: string, path?: Path | null) => Command | null;
+    keyBindings: KeyBinding[];
+    keymapConflicts: KeymapConflict[];
     undo: () => void;
     redo: (nodeIndex?: number) => void;
 };
@@ -43,36 +146,94 @@ export const EditorContext = createContext<EditorContextType | undefined>(undefi
 
 type EditorProviderProps = Readonly<{
     children: ReactNode;
-    initialDoc: BlockArray;
+    docId: string;
+    initialDoc?: BlockArray;
+    plugins?: EditorPlugin[];
 }>;
 
-export function EditorProvider({ children, initialDoc }: EditorProviderProps) {
-    // Initialize from localStorage or use defaults
-    const persistedState = globalThis.window === undefined ? null : loadEditorState();
+/**
+ * Provides the editor state of a single workspace document.
+ * Mount with `key={docId}` so switching documents starts from that document's persisted state.
+ * Commands of the given plugins are registered after the core ones and can override them by ID.
+ */
+export function EditorProvider({ children, docId, initialDoc = [], plugins = [] }: EditorProviderProps) {
+    // Initialize from localStorage (once per document) or use defaults
+    const [persistedState] = useState(() => (globalThis.window === undefined ? null : loadEditorState(docId)));
 
     // Use history tree hook for document and history management
-    const history = useHistoryTree(persistedState?.doc ?? initialDoc);
+    const history = useHistoryTree(persistedState?.doc ?? initialDoc, persistedState?.historyNodes, persistedState?.currentIndex);
 
     // Cursor position state (managed separately as it's UI-specific)
     const [cursorPosition, setCursorPosition] = useState<CursorPosition>(persistedState?.cursor ?? null);
 
-    // Persist full editor state to localStorage
-    usePersistence(
-        'editor-state',
-        {
-            doc: history.doc,
-            historyNodes: history.historyNodes,
-            currentIndex: history.currentIndex,
-            cursor: cursorPosition,
+    // Block (and caret range) to enter editing on next render, e.g. after the block moved in the tree
+    const [focusRequest, requestFocus] = useState<CursorPosition>(null);
+
+    // Block focused for keyboard navigation: the one being edited, or the last one edited or navigated to (UI-only, not persisted)
+    const [focusedBlockId, focusBlock] = useState<string | null>(null);
+
+    // Block selection (UI-only, not persisted)
+    const [selection, setSelection] = useState<BlockSelection>({ blockIds: [], anchorId: null, focusId: null });
+
+    // Persist full editor state to localStorage under this document's key
+    const persistedValue = useMemo(
+        () => serializeEditorState(history.doc, history.historyNodes, history.currentIndex, cursorPosition),
+        [history.doc, history.historyNodes, history.currentIndex, cursorPosition],
+    );
+    usePersistence(getEditorStateKey(docId), persistedValue, STORAGE_CONFIG.AUTO_SAVE_DELAY_MS);
+
+    // Page blocks own a workspace document, registered as a sub-page of this document when the block is created
+    const { addSubPage, renameDocument, trash, addToTrash, keymapOverrides } = useWorkspace();
+    const registerSubPages = useCallback(
+        (command: Command | null) => {
+            command?.forward.ops.forEach((op) => {
+                if (op.type === 'insert' && op.block.pageId) {
+                    addSubPage(op.block.pageId, docId, op.block.content || undefined);
+                } else if (op.type === 'update' && op.field === 'type' && op.attributes.pageId) {
+                    addSubPage(op.attributes.pageId, docId, getBlockAtPath(history.doc, op.path)?.content || undefined);
+                }
+            });
         },
-        STORAGE_CONFIG.AUTO_SAVE_DELAY_MS,
+        [addSubPage, docId, history.doc],
     );
 
+    // A page block's text is its sub-page's title: editing it, and undoing or redoing that, renames the sub-page.
+    // Titles are only pushed when the block's text changes, so renames made elsewhere are kept.
+    const previousDocRef = useRef<BlockArray>(history.doc);
+    useEffect(() => {
+        const previousContents = new Map(flattenBlocks(previousDocRef.current).map(({ block }) => [block.id, block.content]));
+        previousDocRef.current = history.doc;
+        flattenBlocks(history.doc).forEach(({ block }) => {
+            const previousContent = previousContents.get(block.id);
+            if (isPageBlock(block) && block.pageId && block.content.trim() && previousContent !== undefined && previousContent !== block.content) {
+                renameDocument(block.pageId, block.content);
+            }
+        });
+    }, [history.doc, renameDocument]);
+
     // Action wrappers that create commands and execute them
+    // Edits passing the same session key (one editing session of a block) are coalesced into one history node
     const updateContent = useCallback(
-        (path: Path, content: string) => {
+        (path: Path, content: string, sessionKey?: string) => {
             const command = updateContentCommand(history.doc, path, content);
+            history.execute(command, sessionKey);
+        },
+        [history],
+    );
+
+    // Several edits recorded as a single undo step; nothing is applied if any of them fails
+    const transact = useCallback(
+        (fn: (transaction: Transaction) => void, label?: string) => {
+            const command = transactCommands(history.doc, fn, label);
             history.execute(command);
+            return command !== null;
+        },
+        [history],
+    );
+
+    const revertEdit = useCallback(
+        (sessionKey: string) => {
+            history.revertSession(sessionKey);
         },
         [history],
     );
@@ -85,22 +246,80 @@ export function EditorProvider({ children, initialDoc }: EditorProviderProps) {
         [history],
     );
 
-    const insertBlock = useCallback(
-        (parentPath: Path | null, index: number, type: BlockType) => {
-            const command = insertBlockCommand(parentPath, index, type);
+    // Commits any not-yet-saved content together with the command built on top of it, so both undo in one step
+    const executeWithPendingContent = useCallback(
+        (path: Path, pendingContent: string | undefined, build: (doc: BlockArray) => Command | null) => {
+            const block = getBlockAtPath(history.doc, path);
+            const contentCommand =
+                pendingContent !== undefined && pendingContent !== block?.content ? updateContentCommand(history.doc, path, pendingContent) : null;
+            const docWithContent = contentCommand ? applyPatch(history.doc, contentCommand.forward) : history.doc;
+            const command = build(docWithContent);
+
+            if (contentCommand && command) {
+                history.execute(composeCommands(contentCommand, command));
+            } else {
+                history.execute(contentCommand ?? command);
+            }
+            return command;
+        },
+        [history],
+    );
+
+    const toggleMark = useCallback(
+        (path: Path, mark: InlineMark, pendingContent?: string) => {
+            executeWithPendingContent(path, pendingContent, (doc) => toggleMarkCommand(doc, path, mark));
+        },
+        [executeWithPendingContent],
+    );
+
+    const setProperty = useCallback(
+        (path: Path, key: string, value: PropertyValue) => {
+            const command = setPropertyCommand(history.doc, path, key, value);
             history.execute(command);
         },
         [history],
     );
 
-    const deleteBlock = useCallback(
-        (parentPath: Path | null, index: number) => {
-            const command = deleteBlockCommand(history.doc, parentPath, index);
+    const removeProperty = useCallback(
+        (path: Path, key: string) => {
+            const command = removePropertyCommand(history.doc, path, key);
             history.execute(command);
         },
         [history],
     );
 
+    const insertBlock = useCallback(
+        (parentPath: Path | null, index: number, type: BlockType, level?: HeadingLevel) => {
+            const command = insertBlockCommand(parentPath, index, type, level);
+            registerSubPages(command);
+            history.execute(command);
+        },
+        [history, registerSubPages],
+    );
+
+    // Restores at the original location when it still exists in this document, otherwise at the end of the root.
+    // The entry stays in the trash, hidden while its block is in the document, so undoing the restore lists it again.
+    // The block keeps its ID for that; nested blocks get fresh IDs if any of theirs came back through undo.
+    const restoreFromTrash = useCallback(
+        (entryId: string) => {
+            const entry = getRestorableTrash(trash, history.doc).find((candidate) => candidate.id === entryId);
+            if (!entry) return;
+
+            const parentPath = entry.docId === docId && entry.parentId ? (getBlockPosition(history.doc, entry.parentId)?.path ?? null) : null;
+            const isOriginalLocation = entry.docId === docId && (entry.parentId === null || parentPath !== null);
+            const index = isOriginalLocation ? entry.index : history.doc.length;
+
+            const ids = new Set(flattenBlocks(history.doc).map(({ block }) => block.id));
+            const children = entry.block.children;
+            const hasTakenIds = flattenBlocks(children ?? []).some(({ block }) => ids.has(block.id));
+            const block = hasTakenIds && children ? { ...entry.block, children: children.map(cloneBlockWithNewIds) } : entry.block;
+
+            const command = insertBlockTreeCommand(history.doc, parentPath, index, block);
+            history.execute(command);
+        },
+        [history, docId, trash],
+    );
+
     const moveBlock = useCallback(
         (fromParentPath: Path | null, fromIndex: number, toParentPath: Path | null, toIndex: number) => {
             const command = moveBlockCommand(fromParentPath, fromIndex, toParentPath, toIndex);
@@ -109,9 +328,287 @@ export function EditorProvider({ children, initialDoc }: EditorProviderProps) {
         [history],
     );
 
+    // The typed prefix is saved first as its own step, so undoing the shortcut brings back the literal text
+    const applyTypingShortcut = useCallback(
+        (path: Path, pendingContent: string) => {
+            const block = getBlockAtPath(history.doc, path);
+            const contentCommand = block && pendingContent !== block.content ? updateContentCommand(history.doc, path, pendingContent) : null;
+            const docWithContent = contentCommand ? applyPatch(history.doc, contentCommand.forward) : history.doc;
+            const command = typingShortcutCommand(docWithContent, path);
+            if (!command) return;
+
+            if (contentCommand) history.execute(contentCommand);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    const indentBlock = useCallback(
+        (path: Path, pendingContent?: string) => {
+            executeWithPendingContent(path, pendingContent, (doc) => indentBlockCommand(doc, path));
+        },
+        [executeWithPendingContent],
+    );
+
+    const outdentBlock = useCallback(
+        (path: Path, pendingContent?: string) => {
+            executeWithPendingContent(path, pendingContent, (doc) => outdentBlockCommand(doc, path));
+        },
+        [executeWithPendingContent],
+    );
+
+    // The caret moves to the start of the new block
+    const splitBlock = useCallback(
+        (path: Path, offset: number, pendingContent?: string) => {
+            const command = executeWithPendingContent(path, pendingContent, (doc) => splitBlockCommand(doc, path, offset));
+            const inserted = command?.forward.ops.find((op) => op.type === 'insert');
+            if (inserted?.type === 'insert') requestFocus({ blockId: inserted.block.id, selectionStart: 0, selectionEnd: 0 });
+        },
+        [executeWithPendingContent],
+    );
+
+    // The caret moves to where the merged text starts in the previous block
+    const mergeBlock = useCallback(
+        (path: Path, pendingContent?: string) => {
+            const previous = getPreviousBlock(history.doc, path);
+            const command = executeWithPendingContent(path, pendingContent, (doc) => mergeBlockCommand(doc, path));
+            if (command && previous) {
+                const joinAt = previous.block.content.length;
+                requestFocus({ blockId: previous.block.id, selectionStart: joinAt, selectionEnd: joinAt });
+            }
+        },
+        [history, executeWithPendingContent],
+    );
+
+    // Blocks deleted or missing since they were selected are skipped
+    const selectedPaths = useMemo(
+        () => selection.blockIds.map((blockId) => getBlockPosition(history.doc, blockId)?.path).filter((path): path is Path => path !== undefined),
+        [history.doc, selection.blockIds],
+    );
+
+    const selectBlock = useCallback(
+        (blockId: string, mode: SelectionMode) => {
+            setSelection((previous) => {
+                if (mode === 'toggle') {
+                    const blockIds = previous.blockIds.includes(blockId) ? previous.blockIds.filter((id) => id !== blockId) : [...previous.blockIds, blockId];
+                    return { blockIds, anchorId: blockId, focusId: blockId };
+                }
+                if (mode === 'extend' && previous.anchorId) {
+                    return { ...previous, blockIds: getBlockIdsInRange(history.doc, previous.anchorId, blockId), focusId: blockId };
+                }
+                return { blockIds: [blockId], anchorId: blockId, focusId: blockId };
+            });
+        },
+        [history.doc],
+    );
+
+    // Moves the selection focus to the previous/next block in document order, starting from the cursor's block
+    const extendSelection = useCallback(
+        (direction: MoveDirection) => {
+            const ids = flattenBlocks(history.doc).map(({ block }) => block.id);
+            const anchorId = selection.anchorId ?? focusedBlockId ?? cursorPosition?.blockId;
+            const focusId = selection.focusId ?? anchorId;
+            if (!anchorId || !focusId) return;
+
+            const focusIndex = ids.indexOf(focusId);
+            const nextFocusId = ids[direction === 'up' ? focusIndex - 1 : focusIndex + 1] ?? focusId;
+            setSelection({ blockIds: getBlockIdsInRange(history.doc, anchorId, nextFocusId), anchorId, focusId: nextFocusId });
+        },
+        [history.doc, selection.anchorId, selection.focusId, focusedBlockId, cursorPosition],
+    );
+
+    const clearSelection = useCallback(() => setSelection({ blockIds: [], anchorId: null, focusId: null }), []);
+
+    // Moving the block focus drops any block selection, like moving a text caret drops the text selection
+    const moveFocus = useCallback(
+        (target: FocusTarget) => {
+            focusBlock(getFocusTargetId(history.doc, focusedBlockId, target));
+            clearSelection();
+        },
+        [history.doc, focusedBlockId, clearSelection],
+    );
+
+    const deleteBlocks = useCallback(
+        (paths: Path[]) => {
+            const command = deleteBlocksCommand(history.doc, paths);
+            if (command) {
+                getTopLevelPaths(paths).forEach((path) => {
+                    const trashEntry = createTrashEntry(docId, history.doc, path.length > 1 ? path.slice(0, -1) : null, path[path.length - 1]);
+                    if (trashEntry) addToTrash(trashEntry);
+                });
+                clearSelection();
+            }
+            history.execute(command);
+        },
+        [history, docId, addToTrash, clearSelection],
+    );
+
+    // Cleared todos go to the trash like any other deleted blocks
+    const clearCompleted = useCallback(
+        (scopePath: Path | null) => {
+            const command = clearCompletedCommand(history.doc, scopePath);
+            if (command) {
+                getTopLevelPaths(getCompletedTodoPaths(history.doc, scopePath)).forEach((path) => {
+                    const trashEntry = createTrashEntry(docId, history.doc, path.length > 1 ? path.slice(0, -1) : null, path[path.length - 1]);
+                    if (trashEntry) addToTrash(trashEntry);
+                });
+            }
+            history.execute(command);
+        },
+        [history, docId, addToTrash],
+    );
+
+    const archiveCompleted = useCallback(
+        (scopePath: Path | null) => {
+            const command = archiveCompletedCommand(history.doc, scopePath);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    const toggleTodos = useCallback(
+        (paths: Path[]) => {
+            const command = toggleTodosCommand(history.doc, paths);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    const indentBlocks = useCallback(
+        (paths: Path[]) => {
+            const command = indentBlocksCommand(history.doc, paths);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    const outdentBlocks = useCallback(
+        (paths: Path[]) => {
+            const command = outdentBlocksCommand(history.doc, paths);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    const moveBlocks = useCallback(
+        (paths: Path[], direction: MoveDirection) => {
+            const command = moveBlocksCommand(history.doc, paths, direction);
+            history.execute(command);
+        },
+        [history],
+    );
+
+    // Pasted copies get fresh IDs and become the selection, so they can be moved or cut right away.
+    // Page blocks are left out, as their copies would share the original sub-page.
+    const pasteBlocks = useCallback(
+        (blocks: BlockArray, afterPath: Path | null) => {
+            const copies = removePageBlocks(blocks).map(cloneBlockWithNewIds);
+            const parentPath = afterPath && afterPath.length > 1 ? afterPath.slice(0, -1) : null;
+            const index = afterPath ? afterPath[afterPath.length - 1] + 1 : history.doc.length;
+
+            const command = insertBlocksCommand(history.doc, parentPath, index, copies);
+            if (command) {
+                registerSubPages(command);
+                setSelection({ blockIds: copies.map((copy) => copy.id), anchorId: copies[0].id, focusId: copies[copies.length - 1].id });
+            }
+            history.execute(command);
+        },
+        [history, registerSubPages],
+    );
+
+    // Find and replace (UI-only, not persisted). A null search means the find bar is closed.
+    const [search, setSearchState] = useState<SearchState | null>(null);
+    const [activeMatchIndex, setActiveMatchIndex] = useState<number>(0);
+
+    const searchMatches = useMemo(() => (search ? findMatches(history.doc, search.query, search.options) : []), [history.doc, search]);
+
+    const setSearch = useCallback((next: SearchState | null) => {
+        setSearchState(next);
+        setActiveMatchIndex(0);
+    }, []);
+
+    const replaceMatches = useCallback(
+        (matches: SearchMatch[], replacement: string) => {
+            if (!search) return;
+            const replacements = matches.map((match) => ({
+                path: match.path,
+                start: match.start,
+                end: match.end,
+                text: getReplacementText(getBlockAtPath(history.doc, match.path)?.content ?? '', match, search.query, search.options, replacement),
+            }));
+            const command = replaceTextCommand(history.doc, replacements);
+            if (command) history.execute(command);
+        },
+        [history, search],
+    );
+
+    // The following match takes the replaced one's index, so repeated replacing walks through the document
+    const replaceMatch = useCallback(
+        (index: number, replacement: string) => {
+            const match = searchMatches[index];
+            if (match) replaceMatches([match], replacement);
+        },
+        [searchMatches, replaceMatches],
+    );
+
+    // All matches are replaced by one command, so a single undo restores them
+    const replaceAllMatches = useCallback((replacement: string) => replaceMatches(searchMatches, replacement), [searchMatches, replaceMatches]);
+
+    // Command registry, seeded with the core commands and those of the plugins passed in
+    const [commands, setCommands] = useState<EditorCommand[]>(() =>
+        [CORE_PLUGIN, ...plugins].reduce<EditorCommand[]>((registry, plugin) => registerCommands(registry, plugin.commands), []),
+    );
+
+    // Returns a function that removes the commands again, e.g. from an effect's cleanup
+    const registerEditorCommands = useCallback((added: EditorCommand[]) => {
+        setCommands((registry) => registerCommands(registry, added));
+        return () => setCommands((registry) => unregisterCommands(registry, added.map((command) => command.id)));
+    }, []);
+
+    // Commands target the given block, or else the first selected block or the one holding the cursor
+    const getCommandContext = useCallback(
+        (path?: Path | null): EditorCommandContext => {
+            const cursorPath = cursorPosition ? (getBlockPosition(history.doc, cursorPosition.blockId)?.path ?? null) : null;
+            const targetPath = path === undefined ? (selectedPaths[0] ?? cursorPath) : path;
+            const block = targetPath ? (getBlockAtPath(history.doc, targetPath) ?? null) : null;
+            return { doc: history.doc, path: block ? targetPath : null, block, selectedPaths };
+        },
+        [history.doc, cursorPosition, selectedPaths],
+    );
+
+    // Registered commands are recorded under their label unless the built command carries its own.
+    // Blocks deleted by a trashing command are replayed op by op, so each goes to the trash from the document it left.
+    const runCommand = useCallback(
+        (id: string, path?: Path | null) => {
+            const editorCommand = commands.find((candidate) => candidate.id === id);
+            const context = getCommandContext(path);
+            if (!editorCommand || !isCommandAvailable(editorCommand, context)) return null;
+
+            const command = editorCommand.factory(context);
+            if (!command) return null;
+            if (editorCommand.trash) {
+                command.forward.ops.reduce((doc, op) => {
+                    const trashEntry = op.type === 'delete' ? createTrashEntry(docId, doc, op.parentPath, op.index) : null;
+                    if (trashEntry) addToTrash(trashEntry);
+                    return applyPatch(doc, { ops: [op] });
+                }, history.doc);
+            }
+            registerSubPages(command);
+            history.execute({ ...command, label: command.label ?? editorCommand.label });
+            return command;
+        },
+        [history, docId, addToTrash, commands, getCommandContext, registerSubPages],
+    );
+
+    // The editor's own bindings followed by the registered commands' shortcuts, with the user's overrides applied
+    const keyBindings = useMemo(() => resolveKeymap([...KEYMAP_CONFIG.BINDINGS, ...getCommandKeyBindings(commands)], keymapOverrides), [commands, keymapOverrides]);
+    const keymapConflicts = useMemo(() => findKeymapConflicts(keyBindings), [keyBindings]);
+
     // Compose context value from history hook and local state
     const value: EditorContextType = useMemo(
         () => ({
+            docId,
+
             // State from history hook
             doc: history.doc,
             historyNodes: history.historyNodes,
@@ -120,20 +617,62 @@ export function EditorProvider({ children, initialDoc }: EditorProviderProps) {
             canRedo: history.canRedo,
             redoBranches: history.redoBranches,
 
-            // Local cursor state
+            // Local cursor and selection state
             cursorPosition,
             setCursorPosition,
+            focusRequest,
+            requestFocus,
+            focusedBlockId,
+            focusBlock,
+            moveFocus,
+            selectedBlockIds: selection.blockIds,
+            selectedPaths,
+            selectBlock,
+            extendSelection,
+            clearSelection,
+            search,
+            searchMatches,
+            activeMatchIndex: Math.min(activeMatchIndex, Math.max(searchMatches.length - 1, 0)),
+            setSearch,
+            setActiveMatchIndex,
+            replaceMatch,
+            replaceAllMatches,
+            commands,
+            registerCommands: registerEditorCommands,
+            getCommandContext,
+            runCommand,
+            keyBindings,
+            keymapConflicts,
 
             // Actions
             updateContent,
+            revertEdit,
+            transact,
             toggleTodo,
+            toggleMark,
+            applyTypingShortcut,
+            setProperty,
+            removeProperty,
             insertBlock,
-            deleteBlock,
+            restoreFromTrash,
             moveBlock,
+            indentBlock,
+            outdentBlock,
+            splitBlock,
+            mergeBlock,
+            clearCompleted,
+            archiveCompleted,
+            deleteBlocks,
+            toggleTodos,
+            indentBlocks,
+            outdentBlocks,
+            moveBlocks,
+            pasteBlocks,
             undo: history.undo,
             redo: history.redo,
         }),
         [
+            docId,
             history.doc,
             history.historyNodes,
             history.currentIndex,
@@ -143,11 +682,49 @@ export function EditorProvider({ children, initialDoc }: EditorProviderProps) {
             history.undo,
             history.redo,
             cursorPosition,
+            focusRequest,
+            focusedBlockId,
+            moveFocus,
+            selection.blockIds,
+            selectedPaths,
+            selectBlock,
+            extendSelection,
+            clearSelection,
+            search,
+            searchMatches,
+            activeMatchIndex,
+            setSearch,
+            replaceMatch,
+            replaceAllMatches,
+            commands,
+            registerEditorCommands,
+            getCommandContext,
+            runCommand,
+            keyBindings,
+            keymapConflicts,
             updateContent,
+            revertEdit,
+            transact,
             toggleTodo,
+            toggleMark,
+            applyTypingShortcut,
+            setProperty,
+            removeProperty,
             insertBlock,
-            deleteBlock,
+            restoreFromTrash,
             moveBlock,
+            indentBlock,
+            outdentBlock,
+            splitBlock,
+            mergeBlock,
+            clearCompleted,
+            archiveCompleted,
+            deleteBlocks,
+            toggleTodos,
+            indentBlocks,
+            outdentBlocks,
+            moveBlocks,
+            pasteBlocks,
         ],
     );
 
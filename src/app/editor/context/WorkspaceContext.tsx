@@ -0,0 +1,178 @@
+'use client';
+
+import { usePersistence } from '@/editor/hooks';
+import {
+    BlockArray,
+    clearEditorState,
+    createBlock,
+    createDocumentMeta,
+    DocumentMeta,
+    getDocumentSubtreeIds,
+    KeymapOverrides,
+    loadEditorState,
+    loadKeymap,
+    loadTrash,
+    loadWorkspace,
+    saveEditorState,
+    saveWorkspace,
+    serializeKeymap,
+    serializeTrash,
+    STORAGE_CONFIG,
+    TRASH_CONFIG,
+    TrashEntry,
+    WORKSPACE_CONFIG,
+} from '@/editor/lib';
+import { createContext, ReactNode, useCallback, useMemo, useState } from 'react';
+
+export type WorkspaceContextType = {
+    // State
+    documents: DocumentMeta[];
+    trash: TrashEntry[];
+    keymapOverrides: KeymapOverrides;
+
+    // Actions
+    getDocument: (id: string) => DocumentMeta | undefined;
+    createDocument: (title?: string) => DocumentMeta;
+    addSubPage: (id: string, parentId: string, title?: string) => void;
+    renameDocument: (id: string, title: string) => void;
+    deleteDocument: (id: string) => void;
+    addToTrash: (entry: TrashEntry) => void;
+    removeFromTrash: (id: string) => void;
+    emptyTrash: () => void;
+    setKeyBinding: (action: string, keys: string[]) => void;
+    resetKeyBinding: (action: string) => void;
+};
+
+export const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+const createWelcomeDoc = (): BlockArray => [
+    createBlock('text', 'Welcome to Mini Notion'),
+    {
+        ...createBlock('todo', 'Complete the interview task'),
+        done: false,
+        children: [
+            createBlock('text', 'Build the state engine ✓'),
+            createBlock('text', 'Implement undo/redo ✓'),
+            createBlock('text', 'Create beautiful UI ✓'),
+        ],
+    },
+    {
+        ...createBlock('todo', 'Test all features'),
+        done: true,
+    },
+    createBlock('text', 'Have fun! 🎉'),
+];
+
+/**
+ * Create the first workspace document, importing state saved by the single-document editor if present
+ */
+const seedWorkspace = (): DocumentMeta[] => {
+    const legacyState = loadEditorState();
+    const document = createDocumentMeta(WORKSPACE_CONFIG.WELCOME_DOCUMENT_TITLE);
+
+    saveEditorState(
+        legacyState?.doc ?? createWelcomeDoc(),
+        legacyState?.historyNodes ?? [],
+        legacyState?.currentIndex ?? -1,
+        legacyState?.cursor ?? null,
+        document.id,
+    );
+    clearEditorState();
+    saveWorkspace([document]);
+
+    return [document];
+};
+
+type WorkspaceProviderProps = Readonly<{
+    children: ReactNode;
+}>;
+
+/**
+ * Provides the list of workspace documents, the trash of deleted blocks and the user's keymap overrides.
+ * Each document's blocks and history are owned by its own `EditorProvider`.
+ */
+export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
+    const [documents, setDocuments] = useState<DocumentMeta[]>(() => (globalThis.window === undefined ? [] : (loadWorkspace() ?? seedWorkspace())));
+
+    const [trash, setTrash] = useState<TrashEntry[]>(() => (globalThis.window === undefined ? [] : loadTrash()));
+
+    const [keymapOverrides, setKeymapOverrides] = useState<KeymapOverrides>(() => (globalThis.window === undefined ? {} : loadKeymap()));
+
+    usePersistence(STORAGE_CONFIG.WORKSPACE_KEY, { documents, version: STORAGE_CONFIG.STORAGE_VERSION }, STORAGE_CONFIG.AUTO_SAVE_DELAY_MS);
+    const persistedTrash = useMemo(() => serializeTrash(trash), [trash]);
+    usePersistence(STORAGE_CONFIG.TRASH_KEY, persistedTrash, STORAGE_CONFIG.AUTO_SAVE_DELAY_MS);
+    const persistedKeymap = useMemo(() => serializeKeymap(keymapOverrides), [keymapOverrides]);
+    usePersistence(STORAGE_CONFIG.KEYMAP_KEY, persistedKeymap, STORAGE_CONFIG.AUTO_SAVE_DELAY_MS);
+
+    const getDocument = useCallback((id: string) => documents.find((document) => document.id === id), [documents]);
+
+    const createDocument = useCallback((title?: string) => {
+        const document = createDocumentMeta(title);
+        setDocuments((previous) => [...previous, document]);
+        return document;
+    }, []);
+
+    // Sub-pages keep their id across undo/redo of the page block, so only register unknown ones
+    const addSubPage = useCallback((id: string, parentId: string, title?: string) => {
+        setDocuments((previous) => (previous.some((document) => document.id === id) ? previous : [...previous, createDocumentMeta(title, parentId, id)]));
+    }, []);
+
+    const renameDocument = useCallback((id: string, title: string) => {
+        setDocuments((previous) => previous.map((document) => (document.id === id ? { ...document, title } : document)));
+    }, []);
+
+    // Deleting a document deletes its sub-pages; the workspace always keeps at least one top-level document
+    const deleteDocument = useCallback(
+        (id: string) => {
+            const deletedIds = getDocumentSubtreeIds(documents, id);
+            deletedIds.forEach((deletedId) => clearEditorState(deletedId));
+            setDocuments((previous) => {
+                const remaining = previous.filter((document) => !deletedIds.includes(document.id));
+                return remaining.some((document) => !document.parentId) ? remaining : [...remaining, createDocumentMeta()];
+            });
+        },
+        [documents],
+    );
+
+    // Newest first, dropping the oldest entries beyond the limit. A block deleted again replaces its earlier entry,
+    // kept only for when undo brings the block back and the delete is redone.
+    const addToTrash = useCallback((entry: TrashEntry) => {
+        setTrash((previous) => [entry, ...previous.filter((existing) => existing.block.id !== entry.block.id)].slice(0, TRASH_CONFIG.MAX_ENTRIES));
+    }, []);
+
+    const removeFromTrash = useCallback((id: string) => {
+        setTrash((previous) => previous.filter((entry) => entry.id !== id));
+    }, []);
+
+    const emptyTrash = useCallback(() => setTrash([]), []);
+
+    // Keys replace the action's default bindings; an empty list unbinds it
+    const setKeyBinding = useCallback((action: string, keys: string[]) => {
+        setKeymapOverrides((previous) => ({ ...previous, [action]: keys }));
+    }, []);
+
+    const resetKeyBinding = useCallback((action: string) => {
+        setKeymapOverrides((previous) => Object.fromEntries(Object.entries(previous).filter(([key]) => key !== action)));
+    }, []);
+
+    const value: WorkspaceContextType = useMemo(
+        () => ({
+            documents,
+            trash,
+            keymapOverrides,
+            getDocument,
+            createDocument,
+            addSubPage,
+            renameDocument,
+            deleteDocument,
+            addToTrash,
+            removeFromTrash,
+            emptyTrash,
+            setKeyBinding,
+            resetKeyBinding,
+        }),
+        [documents, trash, keymapOverrides, getDocument, createDocument, addSubPage, renameDocument, deleteDocument, addToTrash, removeFromTrash, emptyTrash, setKeyBinding, resetKeyBinding],
+    );
+
+    return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+}
@@ -1,9 +1,14 @@
 // Editor-specific hooks barrel export
 export * from './useEditor/useEditor';
+export * from './useWorkspace/useWorkspace';
 export * from './useHistoryTree/useHistoryTree';
 export * from './usePersistence/usePersistence';
 export * from './useBlockEdit/useBlockEdit';
 export * from './useBlockDragDrop/useBlockDragDrop';
 export * from './useCursorPosition/useCursorPosition';
 export * from './useKeyboardShortcut/useKeyboardShortcut';
+export * from './useSelectionShortcuts/useSelectionShortcuts';
+export * from './useClipboard/useClipboard';
+export * from './useSlashMenu/useSlashMenu';
+export * from './useCommandPalette/useCommandPalette';
 export * from './useIntegrityCheck/useIntegrityCheck';
@@ -1,15 +1,41 @@
-import { Block, Path } from '@/editor/lib';
+import { Block, CursorPosition, findKeyBinding, generateId, getCompletedTypingShortcut, getSlashQuery, InlineMark, isCodeBlock, isPageBlock, KEYMAP_CONFIG, KeyBinding, MarkType, Path } from '@/editor/lib';
 import { useDebouncedCallback } from '@/hooks';
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Element used to edit a block: a single-line input, or a textarea for code blocks
+ */
+export type BlockEditElement = HTMLInputElement | HTMLTextAreaElement;
+
+const FORMAT_ACTIONS: Record<string, Exclude<MarkType, 'link'>> = {
+    'edit.bold': 'bold',
+    'edit.italic': 'italic',
+    'edit.code': 'code',
+};
+
+export type UseBlockEditOptions = {
+    toggleMark?: (path: Path, mark: InlineMark, pendingContent?: string) => void;
+    applyTypingShortcut?: (path: Path, pendingContent: string) => void;
+    indentBlock?: (path: Path, pendingContent?: string) => void;
+    outdentBlock?: (path: Path, pendingContent?: string) => void;
+    splitBlock?: (path: Path, offset: number, pendingContent?: string) => void;
+    mergeBlock?: (path: Path, pendingContent?: string) => void;
+    revertEdit?: (sessionKey: string) => void;
+    focusRequest?: CursorPosition;
+    requestFocus?: (cursor: CursorPosition) => void;
+    focusBlock?: (blockId: string | null) => void;
+    keyBindings?: KeyBinding[];
+};
 
 export type UseBlockEditReturn = {
     isEditing: boolean;
     localContent: string;
-    inputRef: React.RefObject<HTMLInputElement | null>;
-    handleChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    handleKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
-    handleBlur: (e: React.FocusEvent<HTMLInputElement>) => void;
+    inputRef: React.RefObject<BlockEditElement | null>;
+    handleChange: (e: React.ChangeEvent<BlockEditElement>) => void;
+    handleKeyDown: (e: React.KeyboardEvent<BlockEditElement>) => void;
+    handleBlur: (e: React.FocusEvent<BlockEditElement>) => void;
     startEdit: () => void;
+    cancelEdit: () => void;
 };
 
 /**
@@ -18,76 +44,208 @@ export type UseBlockEditReturn = {
  * Handles:
  * - Editing mode state
  * - Local content synchronization with block content
- * - Debounced content updates
- * - Keyboard shortcuts (Enter to save, Escape to cancel)
+ * - Debounced content updates (held back while a slash command is typed into an empty block), recorded as one
+ *   history node per editing session
+ * - Keyboard shortcuts (`edit.save` - Ctrl/Cmd+Enter by default - to save, `edit.revert` - Escape by default - to revert
+ *   everything typed since editing started)
+ * - Splitting the block with `edit.split` (Enter) at the caret - at the end of the text this starts an empty block below -
+ *   and merging it into the previous block with `edit.merge` (Backspace) at its start
+ * - Multi-line code editing (Enter inserts a newline, `edit.indent` inserts a tab), and plain-text page titles
+ * - Inline formatting of the selection (`edit.bold`, `edit.italic` and `edit.code`; Ctrl/Cmd+B, I and E by default)
+ * - Markdown-style prefixes (`[] `, `[x] ` for todos, `- `, `* ` back to text) converting the block as they are typed
+ * - Indent/outdent (`edit.indent`/`edit.outdent`; Tab/Shift+Tab by default), keeping the caret in the moved block
+ * - Entering edit mode when the editor requests focus for this block, and keeping the block focused for keyboard
+ *   navigation after leaving it with Enter or Escape
  * - Blur to save
  *
  * @param block - The block being edited
  * @param path - The path to the block in the document
- * @param updateContent - Function to update block content
+ * @param updateContent - Function to update block content; edits passing the same session key are coalesced
+ * @param options - Editor actions that commit pending content with them, the focus request to honor, and the key bindings
+ *   whose `editing` scope drives the shortcuts above
  * @returns Editing state and handlers
  */
-export const useBlockEdit = (block: Block, path: Path, updateContent: (path: Path, content: string) => void): UseBlockEditReturn => {
+export const useBlockEdit = (
+    block: Block,
+    path: Path,
+    updateContent: (path: Path, content: string, sessionKey?: string) => void,
+    { toggleMark, applyTypingShortcut, indentBlock, outdentBlock, splitBlock, mergeBlock, revertEdit, focusRequest, requestFocus, focusBlock, keyBindings = KEYMAP_CONFIG.BINDINGS }: UseBlockEditOptions = {},
+): UseBlockEditReturn => {
     const [isEditing, setIsEditing] = useState<boolean>(false);
     // Only store content while editing - otherwise use block.content directly
     const [editingContent, setEditingContent] = useState<string>('');
-    const inputRef = useRef<HTMLInputElement>(null);
+    // Identifies the current editing session, so its edits share one history node and Escape can revert them together
+    const [sessionKey, setSessionKey] = useState<string>('');
+    const inputRef = useRef<BlockEditElement>(null);
     const hasRestoredRef = useRef<boolean>(false);
+    // Set when the block is moved, split or merged while editing: the unmounting input's blur must not save
+    // to its stale path. Cleared after the next render, by which time that input is gone.
+    const skipBlurRef = useRef<boolean>(false);
+    useEffect(() => {
+        skipBlurRef.current = false;
+    });
+
+    const isFocusRequested = focusRequest?.blockId === block.id;
+
+    // Adjust state during render so the input exists by the time the focus effect runs
+    if (isFocusRequested && !isEditing) {
+        setEditingContent(block.content);
+        setSessionKey(generateId());
+        setIsEditing(true);
+    }
+
+    useEffect(() => {
+        if (!isFocusRequested || !isEditing || !focusRequest) return;
+        const input = inputRef.current;
+        input?.focus();
+        input?.setSelectionRange(focusRequest.selectionStart, focusRequest.selectionEnd);
+        requestFocus?.(null);
+    }, [isFocusRequested, isEditing, focusRequest, requestFocus]);
+
+    // The block being edited is the focused one, so navigation continues from it once editing ends
+    useEffect(() => {
+        if (isEditing) focusBlock?.(block.id);
+    }, [isEditing, block.id, focusBlock]);
 
     // Use editingContent while editing, otherwise use block.content
     const localContent = isEditing ? editingContent : block.content;
 
     const { debouncedCallback: debouncedUpdate, cancel: cancelDebounce } = useDebouncedCallback(
-        (newValue: string) => updateContent(path, newValue),
+        (newValue: string) => updateContent(path, newValue, sessionKey),
         100,
     );
 
     const handleChange = useCallback(
-        (e: React.ChangeEvent<HTMLInputElement>) => {
+        (e: React.ChangeEvent<BlockEditElement>) => {
             const newValue = e.target.value;
             setEditingContent(newValue);
+            // The slash menu replaces the block, so its filter text never becomes part of the document
+            if (block.content === '' && !isCodeBlock(block) && !isPageBlock(block) && getSlashQuery(newValue) !== null) {
+                cancelDebounce();
+                return;
+            }
+            const shortcut = applyTypingShortcut && getCompletedTypingShortcut(block, editingContent, newValue);
+            if (shortcut) {
+                cancelDebounce();
+                applyTypingShortcut(path, newValue);
+                setEditingContent(newValue.slice(shortcut.prefixLength));
+                // Keep the caret where it was relative to the remaining text
+                const target = e.target;
+                const caret = Math.max((target.selectionStart ?? newValue.length) - shortcut.prefixLength, 0);
+                requestAnimationFrame(() => target.setSelectionRange(caret, caret));
+                return;
+            }
             debouncedUpdate(newValue);
         },
-        [debouncedUpdate],
+        [block, path, editingContent, applyTypingShortcut, debouncedUpdate, cancelDebounce],
     );
 
+    const isCode = isCodeBlock(block);
+    // Page titles are plain single-line text: no marks, and no splitting or merging
+    const isPageTitle = isPageBlock(block);
+
     const handleKeyDown = useCallback(
-        (e: React.KeyboardEvent<HTMLInputElement>) => {
-            if (e.key === 'Enter' && !e.shiftKey) {
+        (e: React.KeyboardEvent<BlockEditElement>) => {
+            const action = findKeyBinding(keyBindings, e, 'editing')?.action;
+            if (isCode && action === 'edit.indent') {
+                e.preventDefault();
+                const target = e.currentTarget;
+                const start = target.selectionStart ?? target.value.length;
+                const end = target.selectionEnd ?? start;
+                const newValue = `${target.value.slice(0, start)}\t${target.value.slice(end)}`;
+                setEditingContent(newValue);
+                debouncedUpdate(newValue);
+                // Restore the caret after React re-renders the controlled value
+                requestAnimationFrame(() => target.setSelectionRange(start + 1, start + 1));
+                return;
+            }
+            const moveBlock = action === 'edit.indent' ? indentBlock : action === 'edit.outdent' ? outdentBlock : undefined;
+            if (!isCode && moveBlock) {
+                e.preventDefault();
+                cancelDebounce();
+                const target = e.currentTarget;
+                skipBlurRef.current = true;
+                moveBlock(path, target.value);
+                requestFocus?.({ blockId: block.id, selectionStart: target.selectionStart ?? 0, selectionEnd: target.selectionEnd ?? 0 });
+                return;
+            }
+            const formatType = action && FORMAT_ACTIONS[action];
+            if (!isCode && !isPageTitle && toggleMark && formatType) {
+                e.preventDefault();
+                const target = e.currentTarget;
+                const start = target.selectionStart ?? 0;
+                const end = target.selectionEnd ?? start;
+                if (start < end) {
+                    cancelDebounce();
+                    toggleMark(path, { type: formatType, start, end }, target.value);
+                }
+                return;
+            }
+            const { selectionStart: caret, selectionEnd, value } = e.currentTarget;
+            const isCollapsed = caret !== null && caret === selectionEnd;
+            if (!isCode && !isPageTitle && splitBlock && action === 'edit.split' && isCollapsed) {
                 e.preventDefault();
                 cancelDebounce();
-                updateContent(path, e.currentTarget.value);
+                skipBlurRef.current = true;
+                splitBlock(path, caret, value);
                 setIsEditing(false);
+                return;
             }
-            if (e.key === 'Escape') {
+            if (!isCode && !isPageTitle && mergeBlock && action === 'edit.merge' && isCollapsed && caret === 0) {
+                e.preventDefault();
+                cancelDebounce();
+                skipBlurRef.current = true;
+                mergeBlock(path, value);
+                return;
+            }
+            // Code blocks keep the split key (plain Enter by default) for newlines; in other blocks it saves when text is selected
+            const isSaveKey = action === 'edit.save' || (!isCode && action === 'edit.split');
+            if (isSaveKey) {
+                e.preventDefault();
                 cancelDebounce();
+                updateContent(path, e.currentTarget.value, sessionKey);
+                setIsEditing(false);
+            }
+            if (action === 'edit.revert') {
+                cancelDebounce();
+                skipBlurRef.current = true;
+                revertEdit?.(sessionKey);
                 setIsEditing(false);
             }
         },
-        [path, updateContent, cancelDebounce],
+        [isCode, isPageTitle, block.id, path, sessionKey, updateContent, toggleMark, indentBlock, outdentBlock, splitBlock, mergeBlock, revertEdit, requestFocus, keyBindings, cancelDebounce, debouncedUpdate],
     );
 
     const handleBlur = useCallback(
-        (e: React.FocusEvent<HTMLInputElement>) => {
+        (e: React.FocusEvent<BlockEditElement>) => {
             cancelDebounce();
+            if (skipBlurRef.current) return;
 
             // Always save on blur (debounced update may not have fired yet)
             const currentValue = e.currentTarget.value;
             if (currentValue !== block.content) {
-                updateContent(path, currentValue);
+                updateContent(path, currentValue, sessionKey);
             }
 
             setIsEditing(false);
         },
-        [path, block.content, updateContent, cancelDebounce],
+        [path, block.content, sessionKey, updateContent, cancelDebounce],
     );
 
     const startEdit = useCallback(() => {
         setEditingContent(block.content);
+        setSessionKey(generateId());
         setIsEditing(true);
         hasRestoredRef.current = true;
     }, [block.content]);
 
+    // Leave editing without saving, e.g. when a menu action replaces or moves the block
+    const cancelEdit = useCallback(() => {
+        cancelDebounce();
+        skipBlurRef.current = true;
+        setIsEditing(false);
+    }, [cancelDebounce]);
+
     return {
         isEditing,
         localContent,
@@ -96,5 +254,6 @@ export const useBlockEdit = (block: Block, path: Path, updateContent: (path: Pat
         handleKeyDown,
         handleBlur,
         startEdit,
+        cancelEdit,
     };
 };
@@ -0,0 +1,70 @@
+'use client';
+
+import { Block, blocksToMarkdown, blocksToPlainText, CLIPBOARD_CONFIG, getBlockAtPath, getBlockPosition, getTopLevelPaths, parseBlocks, parsePlainText, serializeBlocks } from '@/editor/lib';
+import { useEffect } from 'react';
+import { useEditor } from '../useEditor/useEditor';
+import { isTextInputEvent } from '../useSelectionShortcuts/useSelectionShortcuts';
+
+/**
+ * Copy, cut and paste of whole blocks:
+ * - Copy/cut of the selected blocks (while no text field has focus) writes them as JSON, Markdown and plain text
+ * - Paste inserts copied blocks (with fresh IDs, leaving out page blocks), or turns multi-line/indented text into a block tree,
+ *   after the selection or the last edited block, or at the end of the document
+ * - While editing a block, only pastes of blocks or multi-line text are taken over; code blocks and other text fields
+ *   always paste text
+ * Cut and paste are each a single undoable command.
+ */
+export const useClipboard = () => {
+    const { doc, selectedPaths, cursorPosition, deleteBlocks, pasteBlocks } = useEditor();
+
+    useEffect(() => {
+        const handleCopy = (e: ClipboardEvent) => {
+            if (isTextInputEvent(e) || selectedPaths.length === 0 || !e.clipboardData) return;
+
+            const paths = getTopLevelPaths(selectedPaths);
+            const blocks = paths.map((path) => getBlockAtPath(doc, path)).filter((block): block is Block => block !== null);
+            if (blocks.length === 0) return;
+
+            e.preventDefault();
+            e.clipboardData.setData(CLIPBOARD_CONFIG.BLOCKS_MIME_TYPE, serializeBlocks(blocks));
+            e.clipboardData.setData('text/markdown', blocksToMarkdown(blocks));
+            e.clipboardData.setData('text/plain', blocksToPlainText(blocks));
+
+            if (e.type === 'cut') deleteBlocks(paths);
+        };
+
+        const handlePaste = (e: ClipboardEvent) => {
+            if (!e.clipboardData) return;
+
+            // Of all text fields, only the input of the block being edited is taken over: other fields (find bar, titles,
+            // palette, ...) and code blocks keep their native paste
+            const target = e.target as HTMLElement | null;
+            const isEditingBlock = !!cursorPosition && target?.tagName === 'INPUT' && target.dataset.blockId === cursorPosition.blockId;
+            if (isTextInputEvent(e) && !isEditingBlock) return;
+
+            const copied = parseBlocks(e.clipboardData.getData(CLIPBOARD_CONFIG.BLOCKS_MIME_TYPE));
+            const text = e.clipboardData.getData('text/plain');
+            if (isEditingBlock && !copied && !/[\r\n]/.test(text)) return;
+
+            const blocks = copied ?? parsePlainText(text);
+            if (blocks.length === 0) return;
+
+            // While editing, paste below the edited block; otherwise below the selection or the last edited block
+            const lastSelected = selectedPaths.length > 0 && !isTextInputEvent(e) ? getTopLevelPaths(selectedPaths).at(-1) : undefined;
+            const afterPath = lastSelected ?? (cursorPosition ? (getBlockPosition(doc, cursorPosition.blockId)?.path ?? null) : null);
+
+            e.preventDefault();
+            pasteBlocks(blocks, afterPath);
+        };
+
+        globalThis.addEventListener('copy', handleCopy);
+        globalThis.addEventListener('cut', handleCopy);
+        globalThis.addEventListener('paste', handlePaste);
+
+        return () => {
+            globalThis.removeEventListener('copy', handleCopy);
+            globalThis.removeEventListener('cut', handleCopy);
+            globalThis.removeEventListener('paste', handlePaste);
+        };
+    }, [doc, selectedPaths, cursorPosition, deleteBlocks, pasteBlocks]);
+};
@@ -0,0 +1,227 @@
+'use client';
+
+import {
+    blocksToMarkdown,
+    blocksToPlainText,
+    flattenBlocks,
+    fuzzyFilter,
+    getActionShortcut,
+    getAvailableCommands,
+    getBlockPosition,
+    getCommandPreview,
+    isPageBlock,
+    SEARCH_CONFIG,
+    serializeBlocks,
+    WORKSPACE_CONFIG,
+} from '@/editor/lib';
+import { ArrowRight, Download, GitBranch, Redo2, Search, Undo2 } from 'lucide-react';
+import { ComponentType, useCallback, useMemo, useState } from 'react';
+import { useEditor } from '../useEditor/useEditor';
+import { useWorkspace } from '../useWorkspace/useWorkspace';
+
+/**
+ * An entry of the command palette
+ */
+export type CommandPaletteItem = {
+    id: string;
+    label: string;
+    group: string;
+    icon?: ComponentType<{ className?: string }>;
+    /**
+     * Shortcut hint, already formatted for display
+     */
+    shortcut?: string;
+    run: () => void;
+};
+
+export type UseCommandPaletteReturn = {
+    isOpen: boolean;
+    open: () => void;
+    close: () => void;
+    query: string;
+    setQuery: (query: string) => void;
+    items: CommandPaletteItem[];
+    activeIndex: number;
+    setActiveIndex: (index: number) => void;
+    runItem: (item: CommandPaletteItem) => void;
+    handleKeyDown: (e: React.KeyboardEvent) => void;
+};
+
+// Jump targets show the start of the block's text
+const JUMP_LABEL_LENGTH = 40;
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Custom hook for the command palette.
+ *
+ * Handles:
+ * - Listing every available action: registered commands (under their group), undo/redo,
+ *   switching redo branches, find, exporting the document and jumping to a block
+ * - Fuzzy filtering by the typed query, with the highlighted entry reset whenever the query changes
+ * - Keyboard navigation (ArrowUp/ArrowDown to move, Enter to run, Escape to close)
+ *
+ * Commands target the block holding the cursor (`cursorPosition`); without one, blocks are inserted at the end.
+ *
+ * @returns Palette state and handlers
+ */
+export const useCommandPalette = (): UseCommandPaletteReturn => {
+    const {
+        docId,
+        doc,
+        cursorPosition,
+        canUndo,
+        canRedo,
+        redoBranches,
+        undo,
+        redo,
+        requestFocus,
+        setSearch,
+        commands,
+        getCommandContext,
+        runCommand,
+        keyBindings,
+    } = useEditor();
+    const { getDocument } = useWorkspace();
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [highlight, setHighlight] = useState<{ query: string; index: number }>({ query: '', index: 0 });
+    const { query } = highlight;
+
+    const allItems = useMemo((): CommandPaletteItem[] => {
+        if (!isOpen) return [];
+
+        const path = cursorPosition ? (getBlockPosition(doc, cursorPosition.blockId)?.path ?? null) : null;
+        const title = getDocument(docId)?.title || WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE;
+
+        const registered = getAvailableCommands(commands, getCommandContext(path)).map(
+            (command): CommandPaletteItem => ({
+                id: `command:${command.id}`,
+                label: command.label,
+                group: command.group ?? 'Commands',
+                icon: command.icon,
+                shortcut: getActionShortcut(keyBindings, command.id),
+                run: () => runCommand(command.id, path),
+            }),
+        );
+
+        const edits: CommandPaletteItem[] = [
+            ...(canUndo ? [{ id: 'undo', label: 'Undo', group: 'Edit', icon: Undo2, shortcut: getActionShortcut(keyBindings, 'history.undo'), run: undo }] : []),
+            ...(canRedo ? [{ id: 'redo', label: 'Redo', group: 'Edit', icon: Redo2, shortcut: getActionShortcut(keyBindings, 'history.redo'), run: () => redo() }] : []),
+            {
+                id: 'find',
+                label: 'Find and replace',
+                group: 'Edit',
+                icon: Search,
+                shortcut: getActionShortcut(keyBindings, 'search.open'),
+                run: () => setSearch({ query: '', options: SEARCH_CONFIG.DEFAULT_OPTIONS }),
+            },
+        ];
+
+        const branches =
+            redoBranches.length > 1
+                ? redoBranches.map(
+                      ({ node, nodeIndex }): CommandPaletteItem => ({
+                          id: `branch:${nodeIndex}`,
+                          label: `Redo branch: ${getCommandPreview(node.command)}`,
+                          group: 'History',
+                          icon: GitBranch,
+                          run: () => redo(nodeIndex),
+                      }),
+                  )
+                : [];
+
+        const exports: CommandPaletteItem[] = [
+            { id: 'export:markdown', label: 'Export as Markdown', group: 'Export', icon: Download, run: () => downloadFile(`${title}.md`, blocksToMarkdown(doc), 'text/markdown') },
+            { id: 'export:text', label: 'Export as plain text', group: 'Export', icon: Download, run: () => downloadFile(`${title}.txt`, blocksToPlainText(doc), 'text/plain') },
+            { id: 'export:json', label: 'Export as JSON', group: 'Export', icon: Download, run: () => downloadFile(`${title}.json`, serializeBlocks(doc), 'application/json') },
+        ];
+
+        const jumps = flattenBlocks(doc)
+            .filter(({ block }) => block.content.trim() !== '' && !isPageBlock(block))
+            .map(
+                ({ block }): CommandPaletteItem => ({
+                    id: `jump:${block.id}`,
+                    label: `Jump to: ${block.content.length > JUMP_LABEL_LENGTH ? `${block.content.slice(0, JUMP_LABEL_LENGTH)}...` : block.content}`,
+                    group: 'Jump to block',
+                    icon: ArrowRight,
+                    run: () => requestFocus({ blockId: block.id, selectionStart: block.content.length, selectionEnd: block.content.length }),
+                }),
+            );
+
+        return [...registered, ...edits, ...branches, ...exports, ...jumps];
+    }, [
+        isOpen,
+        docId,
+        doc,
+        cursorPosition,
+        canUndo,
+        canRedo,
+        redoBranches,
+        undo,
+        redo,
+        requestFocus,
+        setSearch,
+        commands,
+        getCommandContext,
+        runCommand,
+        keyBindings,
+        getDocument,
+    ]);
+
+    const items = useMemo(() => fuzzyFilter(allItems, query, (item) => `${item.group} ${item.label}`), [allItems, query]);
+    const activeIndex = Math.min(highlight.index, Math.max(items.length - 1, 0));
+
+    const setQuery = useCallback((newQuery: string) => setHighlight({ query: newQuery, index: 0 }), []);
+    const setActiveIndex = useCallback((index: number) => setHighlight((previous) => ({ ...previous, index })), []);
+
+    const open = useCallback(() => {
+        setHighlight({ query: '', index: 0 });
+        setIsOpen(true);
+    }, []);
+    const close = useCallback(() => setIsOpen(false), []);
+
+    const runItem = useCallback(
+        (item: CommandPaletteItem) => {
+            close();
+            item.run();
+        },
+        [close],
+    );
+
+    const handleKeyDown = useCallback(
+        (e: React.KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                close();
+            } else if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && items.length > 0) {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActiveIndex((activeIndex + step + items.length) % items.length);
+            } else if (e.key === 'Enter' && items[activeIndex]) {
+                e.preventDefault();
+                runItem(items[activeIndex]);
+            }
+        },
+        [items, activeIndex, close, setActiveIndex, runItem],
+    );
+
+    return {
+        isOpen,
+        open,
+        close,
+        query,
+        setQuery,
+        items,
+        activeIndex,
+        setActiveIndex,
+        runItem,
+        handleKeyDown,
+    };
+};
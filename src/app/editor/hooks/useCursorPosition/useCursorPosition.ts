@@ -1,8 +1,9 @@
 import { CursorPosition } from '@/editor/lib';
 import { useCallback, useRef } from 'react';
+import { BlockEditElement } from '../useBlockEdit/useBlockEdit';
 
 export type UseCursorPositionReturn = {
-    handleSelectionChange: (e: React.SyntheticEvent<HTMLInputElement>) => void;
+    handleSelectionChange: (e: React.SyntheticEvent<BlockEditElement>) => void;
 };
 
 /**
@@ -28,7 +29,7 @@ export const useCursorPosition = (
 
     // Save cursor position when selection changes
     const handleSelectionChange = useCallback(
-        (e: React.SyntheticEvent<HTMLInputElement>) => {
+        (e: React.SyntheticEvent<BlockEditElement>) => {
             // Don't save during initial restoration
             if (!hasRestoredRef.current) {
                 hasRestoredRef.current = true;
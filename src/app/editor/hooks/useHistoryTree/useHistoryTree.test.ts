@@ -1,6 +1,6 @@
-import { BlockArray, Command } from '@/editor/lib';
+import { BlockArray, Command, convertBlockTypeCommand, HISTORY_CONFIG, typingShortcutCommand, updateContentCommand } from '@/editor/lib';
 import { act, renderHook } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { useHistoryTree } from './useHistoryTree';
 
 // Helper to create a mock command
@@ -246,3 +246,168 @@ it('should calculate redoBranches correctly', () => {
 
     expect(result.current.redoBranches.length).toBeGreaterThanOrEqual(2);
 });
+
+it('should undo and redo a block type conversion', () => {
+    const todoDoc: BlockArray = [
+        { id: '1', type: 'todo', content: 'Task', done: true, children: [{ id: '2', type: 'text', content: 'Child' }] },
+    ];
+    const { result } = renderHook(() => useHistoryTree(todoDoc));
+
+    act(() => {
+        result.current.execute(convertBlockTypeCommand(result.current.doc, [0], 'text'));
+    });
+
+    expect(result.current.doc[0].type).toBe('text');
+    expect(result.current.doc[0]).not.toHaveProperty('done');
+    expect(result.current.doc[0].children).toHaveLength(1);
+
+    act(() => {
+        result.current.undo();
+    });
+
+    expect(result.current.doc).toEqual(todoDoc);
+
+    act(() => {
+        result.current.redo();
+    });
+
+    expect(result.current.doc[0].type).toBe('text');
+    expect(result.current.doc[0].children![0].content).toBe('Child');
+});
+
+it('should resume from persisted history', () => {
+    const command = createMockCommand('modified');
+    const modifiedDoc: BlockArray = [{ id: '1', type: 'text', content: 'modified', children: [] }];
+    const { result } = renderHook(() => useHistoryTree(modifiedDoc, [{ command, parentIndex: null, branches: [], timestamp: Date.now() }], 0));
+
+    expect(result.current.currentIndex).toBe(0);
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+        result.current.undo();
+    });
+
+    expect(result.current.doc[0].content).toBe('original');
+    expect(result.current.canRedo).toBe(true);
+});
+
+it('should add one node per command executed in the same event', () => {
+    const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+    act(() => {
+        result.current.execute(createMockCommand('first'));
+        result.current.execute(createMockCommand('second'));
+    });
+
+    expect(result.current.doc[0].content).toBe('second');
+    expect(result.current.historyNodes).toHaveLength(2);
+    expect(result.current.historyNodes[1].parentIndex).toBe(0);
+    expect(result.current.currentIndex).toBe(1);
+
+    act(() => {
+        result.current.undo();
+    });
+
+    expect(result.current.currentIndex).toBe(0);
+});
+
+describe('edit sessions', () => {
+    const type = (result: { current: ReturnType<typeof useHistoryTree> }, content: string, sessionKey?: string) => {
+        act(() => {
+            result.current.execute(updateContentCommand(result.current.doc, [0], content), sessionKey);
+        });
+    };
+
+    it('should coalesce edits with the same session key into one node', () => {
+        const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+        type(result, 'Hello w', 'session');
+        type(result, 'Hello wor', 'session');
+        type(result, 'Hello world', 'session');
+
+        expect(result.current.historyNodes).toHaveLength(1);
+        expect(result.current.historyNodes[0].command.forward.ops).toEqual([{ type: 'update', path: [0], field: 'content', value: 'Hello world', oldValue: 'Hello' }]);
+
+        act(() => {
+            result.current.undo();
+        });
+
+        expect(result.current.doc).toEqual(initialDoc);
+    });
+
+    it('should start a new node for another session, after other commands, or after an idle pause', () => {
+        const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+        type(result, 'Hello a', 'first');
+        type(result, 'Hello ab', 'second');
+        type(result, 'Hello abc');
+        type(result, 'Hello abcd', 'second');
+        expect(result.current.historyNodes).toHaveLength(4);
+
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now + HISTORY_CONFIG.COALESCE_IDLE_MS + 1);
+        type(result, 'Hello abcde', 'second');
+        vi.restoreAllMocks();
+
+        expect(result.current.historyNodes).toHaveLength(5);
+    });
+
+    it('should branch instead of amending a node that was undone to', () => {
+        const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+        type(result, 'Hello a', 'session');
+        type(result, 'Hello b');
+        act(() => {
+            result.current.undo();
+        });
+        type(result, 'Hello ac', 'session');
+
+        expect(result.current.historyNodes).toHaveLength(3);
+        expect(result.current.historyNodes[0].branches).toEqual([1, 2]);
+        expect(result.current.historyNodes[1].command.forward.ops[0]).toMatchObject({ value: 'Hello b', oldValue: 'Hello a' });
+    });
+
+    it('should revert every node of a session at once', () => {
+        const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+        type(result, 'Hello a', 'session');
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now + HISTORY_CONFIG.COALESCE_IDLE_MS + 1);
+        type(result, 'Hello ab', 'session');
+        vi.restoreAllMocks();
+
+        act(() => {
+            result.current.revertSession('other');
+        });
+        expect(result.current.doc[0].content).toBe('Hello ab');
+
+        act(() => {
+            result.current.revertSession('session');
+        });
+
+        expect(result.current.doc).toEqual(initialDoc);
+        expect(result.current.currentIndex).toBe(-1);
+        expect(result.current.canRedo).toBe(true);
+    });
+});
+
+describe('typing shortcuts', () => {
+    it('should bring back the literal prefixed text when the shortcut is undone', () => {
+        const { result } = renderHook(() => useHistoryTree(initialDoc));
+
+        // The typed prefix is saved as its own step before the shortcut converts the block
+        act(() => {
+            result.current.execute(updateContentCommand(result.current.doc, [0], '[] foo'));
+        });
+        act(() => {
+            result.current.execute(typingShortcutCommand(result.current.doc, [0]));
+        });
+        expect(result.current.doc[0]).toMatchObject({ type: 'todo', content: 'foo' });
+
+        act(() => {
+            result.current.undo();
+        });
+
+        expect(result.current.doc[0]).toMatchObject({ type: 'text', content: '[] foo' });
+    });
+});
@@ -2,11 +2,14 @@ import {
     BlockArray,
     Command,
     HistoryNode,
+    HISTORY_CONFIG,
     RedoBranch,
     addHistoryNode,
+    amendHistoryNode,
     applyPatch,
     canRedo as canRedoFn,
     canUndo as canUndoFn,
+    coalesceTextEdits,
     getRedoBranches,
     getRedoTargetIndex,
     getUndoTargetIndex,
@@ -17,7 +20,8 @@ export type UseHistoryTreeReturn = {
     doc: BlockArray;
     historyNodes: HistoryNode[];
     currentIndex: number;
-    execute: (command: Command | null) => void;
+    execute: (command: Command | null, sessionKey?: string) => void;
+    revertSession: (sessionKey: string) => void;
     undo: () => void;
     redo: (nodeIndex?: number) => void;
     canUndo: boolean;
@@ -25,6 +29,19 @@ export type UseHistoryTreeReturn = {
     redoBranches: RedoBranch[];
 };
 
+// The nodes recorded by the edit session that is still open, oldest first; any other history change closes it
+type EditSession = {
+    key: string;
+    nodeIndices: number[];
+};
+
+type HistoryState = {
+    doc: BlockArray;
+    historyNodes: HistoryNode[];
+    currentIndex: number;
+    session: EditSession | null;
+};
+
 /**
  * Custom hook for managing a branching history tree with undo/redo functionality.
  *
@@ -32,70 +49,92 @@ export type UseHistoryTreeReturn = {
  * - Execute commands with forward patches
  * - Undo with inverse patches
  * - Redo with branch selection (supports branching history)
+ * - Coalescing text edits made in one edit session into a single node, and reverting a whole session
  *
  * @param initialDoc - The initial document state
+ * @param initialHistoryNodes - Previously persisted history to resume from (default: empty)
+ * @param initialCurrentIndex - Position within the persisted history (default: -1)
  * @returns History tree state and operations
  */
-export const useHistoryTree = (initialDoc: BlockArray): UseHistoryTreeReturn => {
-    const [doc, setDoc] = useState<BlockArray>(initialDoc);
-    const [historyNodes, setHistoryNodes] = useState<HistoryNode[]>([]);
-    const [currentIndex, setCurrentIndex] = useState<number>(-1);
-
-    // Execute a command (adds to history tree)
-    const execute = useCallback(
-        (command: Command | null) => {
-            if (!command) {
-                console.warn('Invalid command, skipping execution');
-                return;
-            }
+export const useHistoryTree = (initialDoc: BlockArray, initialHistoryNodes: HistoryNode[] = [], initialCurrentIndex: number = -1): UseHistoryTreeReturn => {
+    // One state object updated functionally, so several commands executed in the same event each build on the previous one
+    const [state, setState] = useState<HistoryState>({ doc: initialDoc, historyNodes: initialHistoryNodes, currentIndex: initialCurrentIndex, session: null });
+    const { doc, historyNodes, currentIndex } = state;
+
+    // Execute a command (adds to history tree). Text edits sharing a session key are folded into the session's
+    // latest node until typing pauses for longer than HISTORY_CONFIG.COALESCE_IDLE_MS.
+    const execute = useCallback((command: Command | null, sessionKey?: string) => {
+        if (!command) {
+            console.warn('Invalid command, skipping execution');
+            return;
+        }
 
+        setState((previous) => {
             // Apply forward patch to document
-            const newDoc = applyPatch(doc, command.forward);
-            setDoc(newDoc);
+            const newDoc = applyPatch(previous.doc, command.forward);
+
+            const session = sessionKey !== undefined && previous.session?.key === sessionKey && previous.session.nodeIndices.at(-1) === previous.currentIndex ? previous.session : null;
+            const node = session ? previous.historyNodes[previous.currentIndex] : undefined;
+            const coalesced = node && Date.now() - node.timestamp <= HISTORY_CONFIG.COALESCE_IDLE_MS ? coalesceTextEdits(node.command, command) : null;
+            const amendedNodes = coalesced && amendHistoryNode(previous.historyNodes, previous.currentIndex, coalesced);
+            if (amendedNodes) {
+                return { doc: newDoc, historyNodes: amendedNodes, currentIndex: previous.currentIndex, session };
+            }
 
             // Add to history tree
-            const { nodes: updatedNodes, newIndex } = addHistoryNode(historyNodes, currentIndex, command);
-            setHistoryNodes(updatedNodes);
-            setCurrentIndex(newIndex);
-        },
-        [doc, historyNodes, currentIndex],
-    );
+            const { nodes: updatedNodes, newIndex } = addHistoryNode(previous.historyNodes, previous.currentIndex, command);
+            const nextSession = sessionKey === undefined ? null : { key: sessionKey, nodeIndices: [...(session?.nodeIndices ?? []), newIndex] };
+            return { doc: newDoc, historyNodes: updatedNodes, currentIndex: newIndex, session: nextSession };
+        });
+    }, []);
+
+    // Undo every node recorded by an edit session, provided nothing else happened since
+    const revertSession = useCallback((sessionKey: string) => {
+        setState((previous) => {
+            const { session } = previous;
+            if (session?.key !== sessionKey || session.nodeIndices.at(-1) !== previous.currentIndex) return previous;
+
+            const newDoc = session.nodeIndices.reduceRight((doc, nodeIndex) => applyPatch(doc, previous.historyNodes[nodeIndex].command.inverse), previous.doc);
+            return { ...previous, doc: newDoc, currentIndex: getUndoTargetIndex(previous.historyNodes, session.nodeIndices[0]), session: null };
+        });
+    }, []);
 
     // Undo the current command
     const undo = useCallback(() => {
-        const targetIndex = getUndoTargetIndex(historyNodes, currentIndex);
-
         if (currentIndex < 0) {
             console.warn('Cannot undo: already at initial state');
             return;
         }
 
-        const node = historyNodes[currentIndex];
+        setState((previous) => {
+            if (previous.currentIndex < 0) return previous;
+            const node = previous.historyNodes[previous.currentIndex];
 
-        // Apply inverse patch
-        const newDoc = applyPatch(doc, node.command.inverse);
-        setDoc(newDoc);
-        setCurrentIndex(targetIndex);
-    }, [doc, historyNodes, currentIndex]);
+            // Apply inverse patch
+            const newDoc = applyPatch(previous.doc, node.command.inverse);
+            return { ...previous, doc: newDoc, currentIndex: getUndoTargetIndex(previous.historyNodes, previous.currentIndex), session: null };
+        });
+    }, [currentIndex]);
 
     // Redo with optional branch selection
     const redo = useCallback(
         (nodeIndex?: number) => {
-            const targetIndex = getRedoTargetIndex(historyNodes, currentIndex, nodeIndex);
-
-            if (targetIndex === -1) {
+            if (getRedoTargetIndex(historyNodes, currentIndex, nodeIndex) === -1) {
                 console.warn('Cannot redo: no redo branches available');
                 return;
             }
 
-            const node = historyNodes[targetIndex];
+            setState((previous) => {
+                const targetIndex = getRedoTargetIndex(previous.historyNodes, previous.currentIndex, nodeIndex);
+                if (targetIndex === -1) return previous;
+                const node = previous.historyNodes[targetIndex];
 
-            // Apply forward patch
-            const newDoc = applyPatch(doc, node.command.forward);
-            setDoc(newDoc);
-            setCurrentIndex(targetIndex);
+                // Apply forward patch
+                const newDoc = applyPatch(previous.doc, node.command.forward);
+                return { ...previous, doc: newDoc, currentIndex: targetIndex, session: null };
+            });
         },
-        [doc, historyNodes, currentIndex],
+        [historyNodes, currentIndex],
     );
 
     // Derived state
@@ -117,6 +156,7 @@ export const useHistoryTree = (initialDoc: BlockArray): UseHistoryTreeReturn =>
         historyNodes,
         currentIndex,
         execute,
+        revertSession,
         undo,
         redo,
         canUndo,
@@ -1,30 +1,63 @@
 'use client';
 
+import { findKeyBinding, flattenBlocks, FocusTarget, isPageBlock } from '@/editor/lib';
+import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import { useEditor } from '../useEditor/useEditor';
+import { isTextInputEvent } from '../useSelectionShortcuts/useSelectionShortcuts';
+
+const FOCUS_ACTIONS: Record<string, FocusTarget> = {
+    'focus.previous': 'previous',
+    'focus.next': 'next',
+    'focus.first': 'first',
+    'focus.last': 'last',
+};
+
+const isInteractiveElementEvent = (e: KeyboardEvent): boolean => e.target instanceof Element && e.target.closest('button, a, select') !== null;
 
 export const useKeyboardShortcuts = () => {
-    const { undo, redo, canUndo, canRedo } = useEditor();
+    const { doc, undo, redo, canUndo, canRedo, keyBindings, runCommand, focusedBlockId, moveFocus, requestFocus } = useEditor();
+    const router = useRouter();
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            // Check if we're in an input/textarea to avoid conflicts
+            // Keys already handled by a focused field (e.g. editing bindings) are left alone,
+            // and global bindings without Ctrl/Cmd or Alt never fire while typing
+            if (e.defaultPrevented) return;
+            const binding = findKeyBinding(keyBindings, e, 'global');
+            if (!binding) return;
+            if (isTextInputEvent(e) && !e.ctrlKey && !e.metaKey && !e.altKey) return;
 
-            // Undo: Ctrl+Z (Windows/Linux) or Cmd+Z (Mac)
-            if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+            if (binding.action === 'history.undo') {
                 if (canUndo) {
                     e.preventDefault();
                     undo();
                 }
-            }
-
-            // Redo: Ctrl+Shift+Z (Windows/Linux) or Cmd+Shift+Z (Mac)
-            // Also support Ctrl+Y (Windows alternative)
-            if (((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'z') || (e.ctrlKey && e.key === 'y' && !e.metaKey)) {
+            } else if (binding.action === 'history.redo') {
                 if (canRedo) {
                     e.preventDefault();
                     redo();
                 }
+            } else if (FOCUS_ACTIONS[binding.action]) {
+                // Focused buttons, links and selects keep their own arrow and Home/End handling
+                if (doc.length > 0 && !isInteractiveElementEvent(e)) {
+                    e.preventDefault();
+                    moveFocus(FOCUS_ACTIONS[binding.action]);
+                }
+            } else if (binding.action === 'focus.edit') {
+                // Start editing the focused block with the caret at the end of its content, or open a focused page.
+                // Enter keeps activating focused buttons and links.
+                const focused = flattenBlocks(doc).find(({ block }) => block.id === focusedBlockId)?.block;
+                if (!focused || isInteractiveElementEvent(e)) return;
+                e.preventDefault();
+                if (isPageBlock(focused)) {
+                    router.push(`/editor/${focused.pageId}`);
+                } else {
+                    requestFocus({ blockId: focused.id, selectionStart: focused.content.length, selectionEnd: focused.content.length });
+                }
+            } else if (runCommand(binding.action)) {
+                // Any other global action is a registered command; the palette, find bar and shortcut help handle their own
+                e.preventDefault();
             }
         };
 
@@ -33,5 +66,5 @@ export const useKeyboardShortcuts = () => {
         return () => {
             globalThis.removeEventListener('keydown', handleKeyDown);
         };
-    }, [undo, redo, canUndo, canRedo]);
+    }, [doc, undo, redo, canUndo, canRedo, keyBindings, runCommand, focusedBlockId, moveFocus, requestFocus, router]);
 };
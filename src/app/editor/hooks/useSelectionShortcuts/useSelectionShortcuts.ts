@@ -0,0 +1,81 @@
+'use client';
+
+import { findKeyBinding, MoveDirection } from '@/editor/lib';
+import { useEffect } from 'react';
+import { useEditor } from '../useEditor/useEditor';
+
+/**
+ * Check whether a keyboard (or clipboard) event comes from a text field, where arrows, Tab, Backspace
+ * and copy/paste keep their usual meaning
+ */
+export const isTextInputEvent = (e: Event): boolean => {
+    const target = e.target as HTMLElement | null;
+    return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+};
+
+const EXTEND_ACTIONS: Record<string, MoveDirection> = {
+    'selection.extendUp': 'up',
+    'selection.extendDown': 'down',
+};
+
+const MOVE_ACTIONS: Record<string, MoveDirection> = {
+    'selection.moveUp': 'up',
+    'selection.moveDown': 'down',
+};
+
+/**
+ * Keyboard handling for multi-block selection, active while no text field has focus. Keys come from the
+ * `selection` scope of the key bindings; by default:
+ * - Shift+ArrowUp/Down extends the selection from the selected (or last edited) block
+ * - Escape clears the selection
+ * - Delete/Backspace deletes the selected blocks
+ * - Tab/Shift+Tab indents/outdents them
+ * - Alt+Shift+ArrowUp/Down moves them among their siblings
+ * - Ctrl/Cmd+Enter toggles the selected todos
+ * Each batch action is a single undoable command.
+ */
+export const useSelectionShortcuts = () => {
+    const { selectedPaths, extendSelection, clearSelection, deleteBlocks, toggleTodos, indentBlocks, outdentBlocks, moveBlocks, keyBindings } = useEditor();
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isTextInputEvent(e)) return;
+
+            const action = findKeyBinding(keyBindings, e, 'selection')?.action;
+            if (!action) return;
+
+            if (EXTEND_ACTIONS[action]) {
+                e.preventDefault();
+                extendSelection(EXTEND_ACTIONS[action]);
+                return;
+            }
+
+            if (selectedPaths.length === 0) return;
+
+            if (MOVE_ACTIONS[action]) {
+                e.preventDefault();
+                moveBlocks(selectedPaths, MOVE_ACTIONS[action]);
+            } else if (action === 'selection.clear') {
+                clearSelection();
+            } else if (action === 'selection.delete') {
+                e.preventDefault();
+                deleteBlocks(selectedPaths);
+            } else if (action === 'selection.indent') {
+                e.preventDefault();
+                indentBlocks(selectedPaths);
+            } else if (action === 'selection.outdent') {
+                e.preventDefault();
+                outdentBlocks(selectedPaths);
+            } else if (action === 'selection.toggleTodos') {
+                e.preventDefault();
+                toggleTodos(selectedPaths);
+            }
+        };
+
+        globalThis.addEventListener('keydown', handleKeyDown);
+
+        return () => {
+            globalThis.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [selectedPaths, extendSelection, clearSelection, deleteBlocks, toggleTodos, indentBlocks, outdentBlocks, moveBlocks, keyBindings]);
+};
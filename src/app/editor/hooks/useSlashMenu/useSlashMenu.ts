@@ -0,0 +1,66 @@
+import { EditorCommand, filterSlashCommands } from '@/editor/lib';
+import { useCallback, useMemo, useState } from 'react';
+
+export type UseSlashMenuReturn = {
+    isOpen: boolean;
+    items: EditorCommand[];
+    activeIndex: number;
+    setActiveIndex: (index: number) => void;
+    handleKeyDown: (e: React.KeyboardEvent) => boolean;
+};
+
+/**
+ * Custom hook for the slash menu of a block being edited.
+ *
+ * Handles:
+ * - Filtering the slash commands by the typed query
+ * - The highlighted entry, reset whenever the query changes
+ * - Keyboard navigation (ArrowUp/ArrowDown to move, Enter or Tab to choose)
+ *
+ * @param query - Text typed after the slash, or null when no slash command is being typed
+ * @param commands - Commands that apply to the block; those marked `slash` are offered
+ * @param onSelect - Called with the chosen command
+ * @returns Menu state and a key handler that reports whether it consumed the event
+ */
+export const useSlashMenu = (query: string | null, commands: EditorCommand[], onSelect: (command: EditorCommand) => void): UseSlashMenuReturn => {
+    const items = useMemo(() => (query === null ? [] : filterSlashCommands(commands, query)), [query, commands]);
+    const [highlight, setHighlight] = useState<{ query: string | null; index: number }>({ query, index: 0 });
+
+    // Adjust state during render so a new query always starts from the first match
+    if (highlight.query !== query) {
+        setHighlight({ query, index: 0 });
+    }
+
+    const isOpen = items.length > 0;
+    const activeIndex = highlight.query === query ? Math.min(highlight.index, Math.max(items.length - 1, 0)) : 0;
+
+    const setActiveIndex = useCallback((index: number) => setHighlight({ query, index }), [query]);
+
+    const handleKeyDown = useCallback(
+        (e: React.KeyboardEvent) => {
+            if (!isOpen) return false;
+
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActiveIndex((activeIndex + step + items.length) % items.length);
+                return true;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                onSelect(items[activeIndex]);
+                return true;
+            }
+            return false;
+        },
+        [isOpen, items, activeIndex, setActiveIndex, onSelect],
+    );
+
+    return {
+        isOpen,
+        items,
+        activeIndex,
+        setActiveIndex,
+        handleKeyDown,
+    };
+};
@@ -0,0 +1,10 @@
+import { WorkspaceContext, WorkspaceContextType } from '@/app/editor/context/WorkspaceContext';
+import { useContext } from 'react';
+
+export const useWorkspace = () => {
+    const context = useContext<WorkspaceContextType | undefined>(WorkspaceContext);
+    if (!context) {
+        throw new Error('useWorkspace must be used within WorkspaceProvider');
+    }
+    return context;
+};
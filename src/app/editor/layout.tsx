@@ -1,20 +1,31 @@
 'use client';
 
-import { DndProvider } from 'react-dnd';
-import { HTML5Backend } from 'react-dnd-html5-backend';
-import { Editor } from './components/Editor';
-import { IntegrityCheckAlert } from './components/IntegrityCheckAlert';
-import { useKeyboardShortcuts } from './hooks';
+import { ReactNode, useEffect, useState } from 'react';
+import { WorkspaceSidebar } from './components/WorkspaceSidebar';
+import { WorkspaceProvider } from './context/WorkspaceContext';
 
-export default function EditorLayout() {
-    useKeyboardShortcuts();
+export default function EditorLayout({ children }: Readonly<{ children: ReactNode }>) {
+    const [isMounted, setIsMounted] = useState(false);
+    useEffect(() => {
+        setTimeout(() => {
+            setIsMounted(true);
+        }, 1000);
+    }, []);
+    if (!isMounted) return null;
 
     return (
-        <DndProvider backend={HTML5Backend}>
-            <div className="space-y-4">
-                <IntegrityCheckAlert />
-                <Editor />
-            </div>
-        </DndProvider>
+        <WorkspaceProvider>
+            <main className="min-h-screen p-8 max-w-6xl mx-auto">
+                <div className="mb-8">
+                    <h1 className="text-4xl font-bold tracking-tight">Mini JSON Block Editor</h1>
+                    <p className="text-muted-foreground mt-2">A Notion-lite editor with patch-based undo/redo</p>
+                </div>
+
+                <div className="flex gap-6">
+                    <WorkspaceSidebar />
+                    <div className="flex-1 min-w-0">{children}</div>
+                </div>
+            </main>
+        </WorkspaceProvider>
     );
 }
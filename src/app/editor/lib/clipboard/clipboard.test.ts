@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Block, BlockArray, BlockType } from '../types';
+import { blocksToMarkdown, blocksToPlainText, parseBlocks, parsePlainText, serializeBlocks } from './clipboard';
+
+const createBlock = (id: string, type: BlockType, content: string, options?: Partial<Block>): Block => ({
+    id,
+    type,
+    content,
+    ...options,
+});
+
+const outline = (blocks: BlockArray): unknown[] => blocks.map((block) => [block.type, block.content, ...(block.children?.length ? [outline(block.children)] : [])]);
+
+describe('clipboard', () => {
+    const tree: BlockArray = [
+        createBlock('1', 'heading', 'Plan', { level: 2 }),
+        createBlock('2', 'todo', 'Ship it', {
+            done: false,
+            marks: [{ type: 'bold', start: 0, end: 4 }],
+            children: [createBlock('3', 'todo', 'Write tests', { done: true }), createBlock('4', 'text', 'Notes', { autoFocus: true })],
+        }),
+        createBlock('5', 'code', 'const a = 1;\nconst b = 2;', { language: 'typescript' }),
+    ];
+
+    describe('serializeBlocks / parseBlocks', () => {
+        it('should round-trip blocks without transient flags', () => {
+            const parsed = parseBlocks(serializeBlocks(tree))!;
+
+            expect(outline(parsed)).toEqual(outline(tree));
+            expect(parsed[1].marks).toEqual([{ type: 'bold', start: 0, end: 4 }]);
+            expect(parsed[1].children![1].autoFocus).toBeUndefined();
+        });
+
+        it('should reject invalid JSON, non-block data and empty arrays', () => {
+            expect(parseBlocks('not json')).toBeNull();
+            expect(parseBlocks(JSON.stringify([{ id: '1', type: 'unknown', content: '' }]))).toBeNull();
+            expect(parseBlocks('[]')).toBeNull();
+            expect(parseBlocks('')).toBeNull();
+        });
+    });
+
+    describe('blocksToMarkdown', () => {
+        it('should render headings, todos with marks, nested items and fenced code', () => {
+            expect(blocksToMarkdown(tree)).toBe(
+                ['## Plan', '- [ ] **Ship** it', '  - [x] Write tests', '  - Notes', '```typescript', 'const a = 1;', 'const b = 2;', '```'].join('\n'),
+            );
+        });
+
+        it('should render links', () => {
+            const doc = [createBlock('1', 'text', 'See docs', { marks: [{ type: 'link', start: 4, end: 8, href: 'https://example.com' }] })];
+            expect(blocksToMarkdown(doc)).toBe('- See [docs](https://example.com)');
+        });
+    });
+
+    describe('blocksToPlainText', () => {
+        it('should render one line per block with children indented by tabs', () => {
+            expect(blocksToPlainText(tree)).toBe(['Plan', 'Ship it', '\tWrite tests', '\tNotes', 'const a = 1;', 'const b = 2;'].join('\n'));
+        });
+    });
+
+    describe('parsePlainText', () => {
+        it('should nest lines under the closest less-indented line', () => {
+            const blocks = parsePlainText('Groceries\n  Milk\n  Bread\n    Rye\nChores\n\tDishes\n');
+
+            expect(outline(blocks)).toEqual([
+                ['text', 'Groceries', [['text', 'Milk'], ['text', 'Bread', [['text', 'Rye']]]]],
+                ['text', 'Chores', [['text', 'Dishes']]],
+            ]);
+        });
+
+        it('should recognize Markdown headings, checkbox items and list markers', () => {
+            const blocks = parsePlainText('# Title\n- [ ] Open\n- [x] Closed\n* Bullet\n1. Numbered');
+
+            expect(outline(blocks)).toEqual([
+                ['heading', 'Title'],
+                ['todo', 'Open'],
+                ['todo', 'Closed'],
+                ['text', 'Bullet'],
+                ['text', 'Numbered'],
+            ]);
+            expect(blocks[0].level).toBe(1);
+            expect(blocks.map((block) => block.done)).toEqual([undefined, false, true, undefined, undefined]);
+        });
+
+        it('should give every block a unique ID and ignore blank lines', () => {
+            const blocks = parsePlainText('a\n\n  b\r\nc');
+            const ids = [blocks[0].id, blocks[0].children![0].id, blocks[1].id];
+
+            expect(new Set(ids).size).toBe(3);
+            expect(parsePlainText('\n  \n')).toEqual([]);
+        });
+
+        it('should turn copied Markdown back into the same outline', () => {
+            const blocks = parsePlainText(blocksToMarkdown(tree.slice(0, 2)));
+            expect(outline(blocks)).toEqual([
+                ['heading', 'Plan'],
+                ['todo', '**Ship** it', [['todo', 'Write tests'], ['text', 'Notes']]],
+            ]);
+        });
+    });
+});
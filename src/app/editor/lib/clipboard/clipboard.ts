@@ -0,0 +1,147 @@
+import { CLIPBOARD_CONFIG } from '../config';
+import { getMarkedSegments } from '../marks/marks';
+import { Block, BlockArray, BlockArraySchema, HeadingLevel } from '../types';
+import { createBlock, stripTransientFlagsFromBlocks } from '../utils';
+
+/**
+ * Serialize blocks for the clipboard's block format
+ */
+export const serializeBlocks = (blocks: BlockArray): string => {
+    return JSON.stringify(stripTransientFlagsFromBlocks(blocks));
+};
+
+/**
+ * Parse blocks from the clipboard's block format.
+ * Returns null if the data is not valid JSON or does not match the block schema.
+ */
+export const parseBlocks = (data: string): BlockArray | null => {
+    try {
+        const result = BlockArraySchema.safeParse(JSON.parse(data));
+        return result.success && result.data.length > 0 ? result.data : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Render a block's content with its inline marks as Markdown
+ */
+const toMarkdownInline = (block: Block): string => {
+    return getMarkedSegments(block.content, block.marks)
+        .map(({ text, marks }) =>
+            marks.reduce((wrapped, mark) => {
+                switch (mark.type) {
+                    case 'bold':
+                        return `**${wrapped}**`;
+                    case 'italic':
+                        return `*${wrapped}*`;
+                    case 'code':
+                        return `\`${wrapped}\``;
+                    case 'link':
+                        return `[${wrapped}](${mark.href})`;
+                }
+            }, text),
+        )
+        .join('');
+};
+
+/**
+ * Render blocks as Markdown: headings, fenced code, checkbox items for todos and list items for everything else,
+ * with children indented under their parent
+ */
+export const blocksToMarkdown = (blocks: BlockArray, depth: number = 0): string => {
+    const indent = CLIPBOARD_CONFIG.MARKDOWN_INDENT.repeat(depth);
+
+    return blocks
+        .map((block) => {
+            let line: string;
+            if (block.type === 'heading') {
+                line = `${indent}${'#'.repeat(block.level ?? 1)} ${toMarkdownInline(block)}`;
+            } else if (block.type === 'code') {
+                const code = block.content.split('\n').map((codeLine) => `${indent}${codeLine}`);
+                line = [`${indent}\`\`\`${block.language ?? ''}`, ...code, `${indent}\`\`\``].join('\n');
+            } else if (block.type === 'todo') {
+                line = `${indent}- [${block.done ? 'x' : ' '}] ${toMarkdownInline(block)}`;
+            } else {
+                line = `${indent}- ${toMarkdownInline(block)}`;
+            }
+
+            const children = block.children?.length ? blocksToMarkdown(block.children, depth + 1) : '';
+            return children ? `${line}\n${children}` : line;
+        })
+        .join('\n');
+};
+
+/**
+ * Render blocks as plain text, one line per block with children indented by tabs
+ */
+export const blocksToPlainText = (blocks: BlockArray, depth: number = 0): string => {
+    const indent = CLIPBOARD_CONFIG.PLAIN_TEXT_INDENT.repeat(depth);
+
+    return blocks
+        .map((block) => {
+            const line = block.content
+                .split('\n')
+                .map((textLine) => `${indent}${textLine}`)
+                .join('\n');
+            const children = block.children?.length ? blocksToPlainText(block.children, depth + 1) : '';
+            return children ? `${line}\n${children}` : line;
+        })
+        .join('\n');
+};
+
+const TODO_PATTERN = /^[-*+] \[([ xX])\] (.*)$/;
+const HEADING_PATTERN = /^(#{1,3}) (.*)$/;
+const LIST_ITEM_PATTERN = /^(?:[-*+]|\d+[.)]) (.*)$/;
+
+/**
+ * Create a block from one line of text, recognizing Markdown headings, checkbox items and list markers
+ */
+const parseLine = (line: string): Block => {
+    const todo = TODO_PATTERN.exec(line);
+    if (todo) return { ...createBlock('todo', todo[2]), done: todo[1] !== ' ' };
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) return createBlock('heading', heading[2], false, heading[1].length as HeadingLevel);
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    return createBlock('text', listItem ? listItem[1] : line);
+};
+
+/**
+ * Measure a line's leading whitespace, counting tabs as several spaces
+ */
+const getIndentWidth = (line: string): number => {
+    let width = 0;
+    for (const char of line) {
+        if (char === ' ') width += 1;
+        else if (char === '\t') width += CLIPBOARD_CONFIG.TAB_WIDTH;
+        else break;
+    }
+    return width;
+};
+
+/**
+ * Turn pasted text into a block tree: one block per non-empty line, nested under the closest
+ * preceding line that is indented less
+ */
+export const parsePlainText = (text: string): BlockArray => {
+    const roots: BlockArray = [];
+    const stack: { indent: number; block: Block }[] = [];
+
+    for (const line of text.split(/\r\n?|\n/)) {
+        if (!line.trim()) continue;
+
+        const indent = getIndentWidth(line);
+        const block = parseLine(line.trim());
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const parent = stack[stack.length - 1]?.block;
+        if (parent) parent.children = [...(parent.children ?? []), block];
+        else roots.push(block);
+
+        stack.push({ indent, block });
+    }
+
+    return roots;
+};
@@ -1,10 +1,44 @@
 import { describe, expect, it } from 'vitest';
 import { applyPatch } from '../patches/patches';
-import { Block, BlockArray } from '../types';
+import { Block, BlockArray, BlockType } from '../types';
+import { getCommandPreview } from '../utils';
 
-import { deleteBlockCommand, insertBlockCommand, moveBlockCommand, toggleTodoCommand, updateContentCommand } from './commands';
+import {
+    archiveCompletedCommand,
+    clearCompletedCommand,
+    coalesceTextEdits,
+    composeCommands,
+    convertBlockTypeCommand,
+    deleteBlockCommand,
+    deleteBlocksCommand,
+    duplicateBlockCommand,
+    indentBlockCommand,
+    indentBlocksCommand,
+    insertBlockCommand,
+    insertBlocksCommand,
+    insertBlockTreeCommand,
+    mergeBlockCommand,
+    moveBlockCommand,
+    moveBlocksCommand,
+    outdentBlockCommand,
+    outdentBlocksCommand,
+    removePropertyCommand,
+    replaceTextCommand,
+    setCodeLanguageCommand,
+    setHeadingLevelCommand,
+    setPropertyCommand,
+    sortChildrenCommand,
+    splitBlockCommand,
+    toggleMarkCommand,
+    toggleTodoCommand,
+    toggleTodosCommand,
+    transactCommands,
+    turnIntoCommand,
+    typingShortcutCommand,
+    updateContentCommand,
+} from './commands';
 
-const createBlock = (id: string, type: 'text' | 'todo', content: string, options?: Partial<Block>): Block => ({
+const createBlock = (id: string, type: BlockType, content: string, options?: Partial<Block>): Block => ({
     id,
     type,
     content,
@@ -56,6 +90,153 @@ describe('commands', () => {
         });
     });
 
+    describe('updateContentCommand with marks', () => {
+        it('should move marks with the text and restore them on undo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Hello world', { marks: [{ type: 'bold', start: 6, end: 11 }] }));
+            const command = updateContentCommand(doc, [0], 'Hello big world')!;
+
+            const modified = applyPatch(doc, command.forward);
+            expect(modified[0].marks).toEqual([{ type: 'bold', start: 10, end: 15 }]);
+            const restored = applyPatch(modified, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+    });
+
+    describe('toggleMarkCommand', () => {
+        it('should add a mark and remove it on undo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Hello world'));
+            const command = toggleMarkCommand(doc, [0], { type: 'italic', start: 0, end: 5 })!;
+
+            expect(command.forward.ops).toEqual([{ type: 'addMark', path: [0], mark: { type: 'italic', start: 0, end: 5 } }]);
+            expect(command.inverse.ops).toEqual([{ type: 'removeMark', path: [0], mark: { type: 'italic', start: 0, end: 5 } }]);
+
+            const formatted = applyPatch(doc, command.forward);
+            expect(formatted[0].marks).toEqual([{ type: 'italic', start: 0, end: 5 }]);
+            const restored = applyPatch(formatted, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should clear part of an existing mark and restore it on undo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Hello world', { marks: [{ type: 'bold', start: 0, end: 11 }] }));
+            const command = toggleMarkCommand(doc, [0], { type: 'bold', start: 5, end: 11 })!;
+
+            const cleared = applyPatch(doc, command.forward);
+            expect(cleared[0].marks).toEqual([{ type: 'bold', start: 0, end: 5 }]);
+            const restored = applyPatch(cleared, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should reject out-of-range marks and code blocks', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Hi'), createBlock('2', 'code', 'x', { language: 'plaintext' }));
+
+            expect(toggleMarkCommand(doc, [0], { type: 'bold', start: 0, end: 3 })).toBeNull();
+            expect(toggleMarkCommand(doc, [0], { type: 'bold', start: 1, end: 1 })).toBeNull();
+            expect(toggleMarkCommand(doc, [1], { type: 'bold', start: 0, end: 1 })).toBeNull();
+        });
+    });
+
+    describe('replaceTextCommand', () => {
+        it('should replace every range as one command, keeping marks around each replacement', () => {
+            const original = createDoc(
+                createBlock('1', 'text', 'cat and cat', { marks: [{ type: 'bold', start: 4, end: 7 }] }),
+                createBlock('2', 'text', 'no match', { children: [createBlock('3', 'text', 'a cat')] }),
+            );
+
+            const command = replaceTextCommand(original, [
+                { path: [0], start: 0, end: 3, text: 'dog' },
+                { path: [0], start: 8, end: 11, text: 'mouse' },
+                { path: [1, 0], start: 2, end: 5, text: 'bird' },
+            ])!;
+            const replaced = applyPatch(original, command.forward);
+            expect(replaced[0].content).toBe('dog and mouse');
+            expect(replaced[0].marks).toEqual([{ type: 'bold', start: 4, end: 7 }]);
+            expect(replaced[1].children![0].content).toBe('a bird');
+            expect(applyPatch(replaced, command.inverse)).toEqual(original);
+        });
+
+        it('should return null when no range applies', () => {
+            expect(replaceTextCommand(createDoc(createBlock('1', 'text', 'short')), [{ path: [0], start: 2, end: 10, text: 'x' }])).toBeNull();
+        });
+    });
+
+    describe('coalesceTextEdits', () => {
+        it('should fold two edits of a block into one content update, keeping mark ops', () => {
+            const original = createDoc(createBlock('1', 'text', 'Hello', { marks: [{ type: 'bold', start: 0, end: 5 }] }));
+            const first = updateContentCommand(original, [0], 'Hi')!;
+            const edited = applyPatch(original, first.forward);
+            const second = updateContentCommand(edited, [0], 'Hi there')!;
+
+            const coalesced = coalesceTextEdits(first, second)!;
+            expect(coalesced.forward.ops.filter((op) => op.type === 'update')).toEqual([{ type: 'update', path: [0], field: 'content', value: 'Hi there', oldValue: 'Hello' }]);
+
+            const result = applyPatch(original, coalesced.forward);
+            expect(result).toEqual(applyPatch(edited, second.forward));
+            expect(applyPatch(result, coalesced.inverse)).toEqual(original);
+        });
+
+        it('should return null for edits of different blocks or other kinds of commands', () => {
+            const doc = createDoc(createBlock('1', 'text', 'One'), createBlock('2', 'todo', 'Two', { done: false }));
+            const edit = updateContentCommand(doc, [0], 'One!')!;
+
+            expect(coalesceTextEdits(edit, updateContentCommand(doc, [1], 'Two!')!)).toBeNull();
+            expect(coalesceTextEdits(edit, toggleTodoCommand(doc, [1])!)).toBeNull();
+        });
+    });
+
+    describe('transactCommands', () => {
+        it('should build each step against the previous one and compose them with a reversed inverse', () => {
+            const original = createDoc(createBlock('1', 'todo', 'Task', { done: false }), createBlock('2', 'text', 'Note'));
+
+            const command = transactCommands(
+                original,
+                (transaction) => {
+                    transaction.execute(toggleTodoCommand(transaction.doc, [0]));
+                    transaction.execute(convertBlockTypeCommand(transaction.doc, [1], 'todo'));
+                    transaction.execute(updateContentCommand(transaction.doc, [0], 'Task (done)'));
+                },
+                'Complete task and add note',
+            )!;
+
+            const result = applyPatch(original, command.forward);
+            expect(result.map((block) => [block.content, block.type, block.done])).toEqual([
+                ['Task (done)', 'todo', true],
+                ['Note', 'todo', false],
+            ]);
+            expect(applyPatch(result, command.inverse)).toEqual(original);
+            expect(getCommandPreview(command)).toBe('Complete task and add note');
+        });
+
+        it('should abort the whole transaction when a step returns null', () => {
+            const doc = createDoc(createBlock('1', 'todo', 'Task', { done: false }));
+            const results: boolean[] = [];
+
+            const command = transactCommands(doc, (transaction) => {
+                results.push(transaction.execute(toggleTodoCommand(transaction.doc, [0])));
+                results.push(transaction.execute(toggleTodoCommand(transaction.doc, [5])));
+                results.push(transaction.execute(updateContentCommand(transaction.doc, [0], 'Changed')));
+            });
+
+            expect(command).toBeNull();
+            expect(results).toEqual([true, false, false]);
+            expect(transactCommands(doc, () => {})).toBeNull();
+        });
+    });
+
+    describe('composeCommands', () => {
+        it('should apply commands in order and undo them in reverse order', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Hello'));
+            const contentCommand = updateContentCommand(doc, [0], 'Hello world')!;
+            const markCommand = toggleMarkCommand(applyPatch(doc, contentCommand.forward), [0], { type: 'bold', start: 6, end: 11 })!;
+            const command = composeCommands(contentCommand, markCommand);
+
+            const modified = applyPatch(doc, command.forward);
+            expect(modified[0].content).toBe('Hello world');
+            expect(modified[0].marks).toEqual([{ type: 'bold', start: 6, end: 11 }]);
+            const restored = applyPatch(modified, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+    });
+
     describe('toggleTodoCommand', () => {
         it('should create forward/inverse patches and toggle done state', () => {
             const doc = createDoc(createBlock('1', 'todo', 'Task', { done: false }));
@@ -83,6 +264,226 @@ describe('commands', () => {
         });
     });
 
+    describe('setHeadingLevelCommand', () => {
+        it('should create forward/inverse patches and change heading level', () => {
+            const doc = createDoc(createBlock('1', 'heading', 'Title', { level: 1 }));
+            const command = setHeadingLevelCommand(doc, [0], 2)!;
+
+            expect(command.forward.ops[0]).toMatchObject({
+                type: 'update',
+                path: [0],
+                field: 'level',
+                value: 2,
+                oldValue: 1,
+            });
+
+            const changed = applyPatch(doc, command.forward);
+            expect(changed[0].level).toBe(2);
+            const restored = applyPatch(changed, command.inverse);
+            expect(restored[0].level).toBe(1);
+        });
+
+        it('should return null for non-heading blocks or unchanged level', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Plain'), createBlock('2', 'heading', 'Title', { level: 3 }));
+
+            expect(setHeadingLevelCommand(doc, [0], 2)).toBeNull();
+            expect(setHeadingLevelCommand(doc, [1], 3)).toBeNull();
+        });
+    });
+
+    describe('setCodeLanguageCommand', () => {
+        it('should create forward/inverse patches and change language', () => {
+            const doc = createDoc(createBlock('1', 'code', 'const a = 1;', { language: 'plaintext' }));
+            const command = setCodeLanguageCommand(doc, [0], 'typescript')!;
+
+            expect(command.forward.ops[0]).toMatchObject({
+                type: 'update',
+                path: [0],
+                field: 'language',
+                value: 'typescript',
+                oldValue: 'plaintext',
+            });
+
+            const changed = applyPatch(doc, command.forward);
+            expect(changed[0].language).toBe('typescript');
+            const restored = applyPatch(changed, command.inverse);
+            expect(restored[0].language).toBe('plaintext');
+        });
+
+        it('should return null for non-code blocks or unchanged language', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Plain'), createBlock('2', 'code', '', { language: 'json' }));
+
+            expect(setCodeLanguageCommand(doc, [0], 'json')).toBeNull();
+            expect(setCodeLanguageCommand(doc, [1], 'json')).toBeNull();
+        });
+    });
+
+    describe('convertBlockTypeCommand', () => {
+        it('should convert text to todo with done=false and restore', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Item', { children: [createBlock('2', 'text', 'Child')] }));
+            const command = convertBlockTypeCommand(doc, [0], 'todo')!;
+
+            expect(command.forward.ops[0]).toMatchObject({
+                type: 'update',
+                path: [0],
+                field: 'type',
+                value: 'todo',
+                oldValue: 'text',
+                attributes: { done: false },
+                oldAttributes: {},
+            });
+
+            const converted = applyPatch(doc, command.forward);
+            expect(converted[0].type).toBe('todo');
+            expect(converted[0].done).toBe(false);
+            expect(converted[0].children).toHaveLength(1);
+
+            const restored = applyPatch(converted, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should drop and restore type-specific fields', () => {
+            const doc = createDoc(createBlock('1', 'todo', 'Done task', { done: true }));
+            const command = convertBlockTypeCommand(doc, [0], 'heading')!;
+
+            const converted = applyPatch(doc, command.forward);
+            expect(converted[0]).not.toHaveProperty('done');
+            expect(converted[0].level).toBe(1);
+
+            const restored = applyPatch(converted, command.inverse);
+            expect(restored[0].done).toBe(true);
+            expect(restored[0]).not.toHaveProperty('level');
+        });
+
+        it('should give a page block a sub-page id and keep it through undo/redo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Meeting notes'));
+            const command = convertBlockTypeCommand(doc, [0], 'page')!;
+
+            const converted = applyPatch(doc, command.forward);
+            const pageId = converted[0].pageId;
+            expect(pageId).toEqual(expect.any(String));
+
+            const restored = applyPatch(converted, command.inverse);
+            expect(restored[0]).not.toHaveProperty('pageId');
+            expect(applyPatch(restored, command.forward)[0].pageId).toBe(pageId);
+        });
+
+        it('should return null for missing block or same type', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Item'));
+
+            expect(convertBlockTypeCommand(doc, [0], 'text')).toBeNull();
+            expect(convertBlockTypeCommand(doc, [5], 'todo')).toBeNull();
+        });
+
+        it('should not convert page blocks, which would orphan their sub-page', () => {
+            const doc = createDoc(createBlock('1', 'page', 'Meeting notes', { pageId: 'page-1' }));
+
+            expect(convertBlockTypeCommand(doc, [0], 'text')).toBeNull();
+        });
+    });
+
+    describe('turnIntoCommand', () => {
+        it('should convert to a heading of the given level in one undoable command', () => {
+            const doc = createDoc(createBlock('1', 'todo', 'Task', { done: true }));
+            const command = turnIntoCommand(doc, [0], 'heading', 2)!;
+
+            const converted = applyPatch(doc, command.forward);
+            expect(converted[0]).toMatchObject({ type: 'heading', level: 2 });
+            expect(applyPatch(converted, command.inverse)).toEqual(doc);
+        });
+
+        it('should only change the level of a heading, and return null when nothing changes', () => {
+            const doc = createDoc(createBlock('1', 'heading', 'Title', { level: 1 }));
+
+            expect(applyPatch(doc, turnIntoCommand(doc, [0], 'heading', 3)!.forward)[0].level).toBe(3);
+            expect(turnIntoCommand(doc, [0], 'heading', 1)).toBeNull();
+            expect(turnIntoCommand(doc, [0], 'heading')).toBeNull();
+        });
+    });
+
+    describe('typingShortcutCommand', () => {
+        it('should turn `[] ` and `[x] ` prefixes into open and done todos, stripping the prefix', () => {
+            const original = createDoc(createBlock('1', 'text', '[] Buy milk'), createBlock('2', 'heading', '[x] Done', { level: 2 }));
+
+            const open = typingShortcutCommand(original, [0])!;
+            const withOpen = applyPatch(original, open.forward);
+            expect(withOpen[0]).toMatchObject({ type: 'todo', done: false, content: 'Buy milk' });
+            expect(applyPatch(withOpen, open.inverse)).toEqual(original);
+
+            const done = typingShortcutCommand(original, [1])!;
+            const withDone = applyPatch(original, done.forward);
+            expect(withDone[1]).toMatchObject({ type: 'todo', done: true, content: 'Done' });
+            expect(withDone[1].level).toBeUndefined();
+            expect(applyPatch(withDone, done.inverse)).toEqual(original);
+        });
+
+        it('should turn a todo with a list marker back into text', () => {
+            const original = createDoc(createBlock('1', 'todo', '- Note', { done: true }), createBlock('2', 'todo', '* Other', { done: false }));
+
+            expect(applyPatch(original, typingShortcutCommand(original, [0])!.forward)[0]).toMatchObject({ type: 'text', content: 'Note' });
+            expect(applyPatch(original, typingShortcutCommand(original, [1])!.forward)[1]).toMatchObject({ type: 'text', content: 'Other' });
+        });
+
+        it('should return null without a matching prefix', () => {
+            const doc = createDoc(
+                createBlock('1', 'text', '- Plain list item'),
+                createBlock('2', 'todo', '[] Already a todo', { done: false }),
+                createBlock('3', 'code', '[] x', { language: 'plaintext' }),
+            );
+            expect(typingShortcutCommand(doc, [0])).toBeNull();
+            expect(typingShortcutCommand(doc, [1])).toBeNull();
+            expect(typingShortcutCommand(doc, [2])).toBeNull();
+        });
+    });
+
+    describe('setPropertyCommand', () => {
+        it('should add a property and remove it on undo', () => {
+            const doc = createDoc(createBlock('1', 'todo', 'Task', { done: false }));
+            const command = setPropertyCommand(doc, [0], 'tags', { kind: 'list', value: ['urgent', 'home'] })!;
+
+            expect(command.inverse.ops[0]).toMatchObject({ type: 'removeProperty', key: 'tags' });
+
+            const withProperty = applyPatch(doc, command.forward);
+            expect(withProperty[0].properties).toEqual({ tags: { kind: 'list', value: ['urgent', 'home'] } });
+            const restored = applyPatch(withProperty, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should replace a property and restore the old value on undo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Note', { properties: { assignee: { kind: 'string', value: 'Ada' } } }));
+            const command = setPropertyCommand(doc, [0], 'assignee', { kind: 'string', value: 'Grace' })!;
+
+            const changed = applyPatch(doc, command.forward);
+            expect(changed[0].properties!.assignee).toEqual({ kind: 'string', value: 'Grace' });
+            const restored = applyPatch(changed, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should return null when the value is unchanged', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Note', { properties: { assignee: { kind: 'string', value: 'Ada' } } }));
+
+            expect(setPropertyCommand(doc, [0], 'assignee', { kind: 'string', value: 'Ada' })).toBeNull();
+        });
+    });
+
+    describe('removePropertyCommand', () => {
+        it('should remove a property and restore it on undo', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Note', { properties: { dueDate: { kind: 'date', value: '2026-01-31' } } }));
+            const command = removePropertyCommand(doc, [0], 'dueDate')!;
+
+            const removed = applyPatch(doc, command.forward);
+            expect(removed[0]).not.toHaveProperty('properties');
+            const restored = applyPatch(removed, command.inverse);
+            expect(restored).toEqual(doc);
+        });
+
+        it('should return null for missing properties', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Note'));
+
+            expect(removePropertyCommand(doc, [0], 'dueDate')).toBeNull();
+        });
+    });
+
     describe('insertBlockCommand', () => {
         it('should create forward/inverse patches and restore state', () => {
             const original = createDoc(createBlock('1', 'text', 'Existing'));
@@ -116,6 +517,20 @@ describe('commands', () => {
             expect(result[0]).toHaveProperty('done');
         });
 
+        it('should insert heading block with requested level', () => {
+            const command = insertBlockCommand(null, 0, 'heading', 2);
+            const result = applyPatch([], command.forward);
+            expect(result[0].type).toBe('heading');
+            expect(result[0].level).toBe(2);
+        });
+
+        it('should insert code block with default language', () => {
+            const command = insertBlockCommand(null, 0, 'code');
+            const result = applyPatch([], command.forward);
+            expect(result[0].type).toBe('code');
+            expect(result[0].language).toBe('plaintext');
+        });
+
         it('should insert as child and restore', () => {
             const original = createDoc(createBlock('1', 'text', 'Parent', { children: [] }));
             const command = insertBlockCommand([0], 0, 'text');
@@ -127,6 +542,40 @@ describe('commands', () => {
         });
     });
 
+    describe('insertBlockTreeCommand', () => {
+        it('should insert a subtree and clamp the index to the parent', () => {
+            const original = createDoc(createBlock('1', 'text', 'Parent', { children: [createBlock('2', 'text', 'Child')] }));
+            const restoredBlock = createBlock('3', 'todo', 'Restored', { done: false, children: [createBlock('4', 'text', 'Nested')] });
+            const command = insertBlockTreeCommand(original, [0], 5, restoredBlock)!;
+
+            const inserted = applyPatch(original, command.forward);
+            expect(inserted[0].children!.map((block) => block.id)).toEqual(['2', '3']);
+            expect(inserted[0].children![1].children![0].content).toBe('Nested');
+            expect(applyPatch(inserted, command.inverse)).toEqual(original);
+        });
+
+        it('should return null when the parent does not exist', () => {
+            expect(insertBlockTreeCommand(createDoc(), [2], 0, createBlock('1', 'text', 'Orphan'))).toBeNull();
+        });
+    });
+
+    describe('insertBlocksCommand', () => {
+        it('should insert blocks one after another as a single command and undo them', () => {
+            const original = createDoc(createBlock('1', 'text', 'First'), createBlock('2', 'text', 'Last'));
+
+            const command = insertBlocksCommand(original, null, 1, [createBlock('a', 'text', 'A'), createBlock('b', 'text', 'B')])!;
+            const inserted = applyPatch(original, command.forward);
+            expect(inserted.map((block) => block.id)).toEqual(['1', 'a', 'b', '2']);
+            expect(applyPatch(inserted, command.inverse)).toEqual(original);
+        });
+
+        it('should return null for a missing parent or no blocks', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Only'));
+            expect(insertBlocksCommand(doc, [5], 0, [createBlock('a', 'text', 'A')])).toBeNull();
+            expect(insertBlocksCommand(doc, null, 0, [])).toBeNull();
+        });
+    });
+
     describe('deleteBlockCommand', () => {
         it('should create forward/inverse patches and restore block', () => {
             const original = createDoc(createBlock('1', 'text', 'First'), createBlock('2', 'text', 'Second'));
@@ -173,6 +622,160 @@ describe('commands', () => {
         });
     });
 
+    describe('indentBlockCommand / outdentBlockCommand', () => {
+        it('should make a block the last child of its previous sibling and undo it', () => {
+            const original = createDoc(createBlock('1', 'text', 'First', { children: [createBlock('1a', 'text', 'Child')] }), createBlock('2', 'text', 'Second'));
+
+            const command = indentBlockCommand(original, [1])!;
+            const indented = applyPatch(original, command.forward);
+            expect(indented).toHaveLength(1);
+            expect(indented[0].children!.map((block) => block.id)).toEqual(['1a', '2']);
+            expect(applyPatch(indented, command.inverse)).toEqual(original);
+        });
+
+        it('should make a block the next sibling of its parent and undo it', () => {
+            const original = createDoc(
+                createBlock('1', 'text', 'Parent', { children: [createBlock('1a', 'text', 'A'), createBlock('1b', 'text', 'B')] }),
+                createBlock('2', 'text', 'Next'),
+            );
+
+            const command = outdentBlockCommand(original, [0, 0])!;
+            const outdented = applyPatch(original, command.forward);
+            expect(outdented.map((block) => block.id)).toEqual(['1', '1a', '2']);
+            expect(outdented[0].children!.map((block) => block.id)).toEqual(['1b']);
+            expect(applyPatch(outdented, command.inverse)).toEqual(original);
+        });
+
+        it('should return null for a first or top-level block', () => {
+            const doc = createDoc(createBlock('1', 'text', 'Only'));
+            expect(indentBlockCommand(doc, [0])).toBeNull();
+            expect(outdentBlockCommand(doc, [0])).toBeNull();
+        });
+    });
+
+    describe('splitBlockCommand', () => {
+        it('should split the text and marks at the offset, keeping children on the first block', () => {
+            const original = createDoc(
+                createBlock('1', 'todo', 'Hello world', {
+                    done: true,
+                    marks: [{ type: 'bold', start: 3, end: 8 }],
+                    children: [createBlock('1a', 'text', 'Child')],
+                }),
+            );
+
+            const command = splitBlockCommand(original, [0], 6)!;
+            const split = applyPatch(original, command.forward);
+            expect(split).toHaveLength(2);
+            expect(split[0]).toMatchObject({ id: '1', content: 'Hello ', done: true, marks: [{ type: 'bold', start: 3, end: 6 }] });
+            expect(split[0].children).toHaveLength(1);
+            expect(split[1]).toMatchObject({ type: 'todo', content: 'world', done: false, marks: [{ type: 'bold', start: 0, end: 2 }] });
+            expect(split[1].id).not.toBe('1');
+            expect(applyPatch(split, command.inverse)).toEqual(original);
+        });
+
+        it('should insert an empty block of the same type when splitting at the end of the text', () => {
+            const original = createDoc(createBlock('1', 'todo', 'Hello', { done: true }));
+
+            const command = splitBlockCommand(original, [0], 5)!;
+            const split = applyPatch(original, command.forward);
+            expect(split).toHaveLength(2);
+            expect(split[0]).toMatchObject({ id: '1', content: 'Hello', done: true });
+            expect(split[1]).toMatchObject({ type: 'todo', content: '', done: false });
+            expect(applyPatch(split, command.inverse)).toEqual(original);
+        });
+
+        it('should not split code blocks', () => {
+            const doc = createDoc(createBlock('1', 'code', 'a\nb', { language: 'plaintext' }));
+            expect(splitBlockCommand(doc, [0], 1)).toBeNull();
+        });
+    });
+
+    describe('mergeBlockCommand', () => {
+        it('should append text and marks to the previous sibling and undo exactly', () => {
+            const original = createDoc(createBlock('1', 'text', 'Hello '), createBlock('2', 'text', 'world', { marks: [{ type: 'italic', start: 0, end: 5 }] }));
+
+            const command = mergeBlockCommand(original, [1])!;
+            const merged = applyPatch(original, command.forward);
+            expect(merged).toHaveLength(1);
+            expect(merged[0]).toMatchObject({ id: '1', content: 'Hello world', marks: [{ type: 'italic', start: 6, end: 11 }] });
+            expect(applyPatch(merged, command.inverse)).toEqual(original);
+        });
+
+        it("should merge into the previous sibling's last descendant and keep the children", () => {
+            const original = createDoc(
+                createBlock('1', 'text', 'Parent', { children: [createBlock('1a', 'text', 'Last')] }),
+                createBlock('2', 'text', ' more', { children: [createBlock('2a', 'text', 'Orphan')] }),
+            );
+
+            const command = mergeBlockCommand(original, [1])!;
+            const merged = applyPatch(original, command.forward);
+            expect(merged).toHaveLength(1);
+            expect(merged[0].children![0]).toMatchObject({ id: '1a', content: 'Last more' });
+            expect(merged[0].children![0].children!.map((block) => block.id)).toEqual(['2a']);
+            // Moving the children back out leaves an empty children array on the former leaf
+            expect(applyPatch(merged, command.inverse)).toMatchObject(original);
+        });
+
+        it('should merge a first child into its parent, putting its children in its place', () => {
+            const original = createDoc(
+                createBlock('1', 'text', 'Parent', {
+                    children: [createBlock('1a', 'text', 'First', { children: [createBlock('1a1', 'text', 'Nested')] }), createBlock('1b', 'text', 'Second')],
+                }),
+            );
+
+            const command = mergeBlockCommand(original, [0, 0])!;
+            const merged = applyPatch(original, command.forward);
+            expect(merged[0].content).toBe('ParentFirst');
+            expect(merged[0].children!.map((block) => block.id)).toEqual(['1a1', '1b']);
+            expect(applyPatch(merged, command.inverse)).toEqual(original);
+        });
+
+        it('should return null for the first block or when a code block is involved', () => {
+            const doc = createDoc(createBlock('1', 'code', 'x', { language: 'plaintext' }), createBlock('2', 'text', 'After'));
+            expect(mergeBlockCommand(doc, [0])).toBeNull();
+            expect(mergeBlockCommand(doc, [1])).toBeNull();
+        });
+    });
+
+    describe('duplicateBlockCommand', () => {
+        it('should insert a deep copy with fresh IDs after the source', () => {
+            const original = createDoc(
+                createBlock('1', 'todo', 'Parent', {
+                    done: true,
+                    children: [createBlock('2', 'text', 'Child', { children: [createBlock('3', 'text', 'Grandchild')] })],
+                }),
+                createBlock('4', 'text', 'After'),
+            );
+            const command = duplicateBlockCommand(original, null, 0)!;
+
+            const duplicated = applyPatch(original, command.forward);
+            expect(duplicated.map((block) => block.content)).toEqual(['Parent', 'Parent', 'After']);
+
+            const copy = duplicated[1];
+            expect(copy.done).toBe(true);
+            expect(copy.children![0].children![0].content).toBe('Grandchild');
+            const ids = [copy.id, copy.children![0].id, copy.children![0].children![0].id];
+            expect(ids.some((id) => ['1', '2', '3', '4'].includes(id))).toBe(false);
+            expect(new Set(ids).size).toBe(3);
+
+            expect(applyPatch(duplicated, command.inverse)).toEqual(original);
+        });
+
+        it('should return null for a missing block', () => {
+            expect(duplicateBlockCommand(createDoc(), null, 0)).toBeNull();
+        });
+
+        it('should not duplicate a block holding a page block, whose copy would share its sub-page', () => {
+            const doc = createDoc(
+                createBlock('1', 'page', 'Notes', { pageId: 'page-1' }),
+                createBlock('2', 'text', 'Parent', { children: [createBlock('3', 'page', 'Nested', { pageId: 'page-2' })] }),
+            );
+
+            expect(duplicateBlockCommand(doc, null, 0)).toBeNull();
+            expect(duplicateBlockCommand(doc, null, 1)).toBeNull();
+        });
+    });
+
     describe('moveBlockCommand', () => {
         it('should create forward/inverse patches', () => {
             const command = moveBlockCommand(null, 0, null, 2);
@@ -234,4 +837,210 @@ describe('commands', () => {
             expect(moved[1].children![0].content).toBe('Child');
         });
     });
+
+    describe('sortChildrenCommand', () => {
+        const due = (value: string): Partial<Block> => ({ properties: { dueDate: { kind: 'date', value } } });
+
+        it('should order children by due date with undated blocks last', () => {
+            const original = createDoc(
+                createBlock('p', 'text', 'Parent', {
+                    children: [
+                        createBlock('a', 'todo', 'No date'),
+                        createBlock('b', 'todo', 'Later', due('2024-03-10')),
+                        createBlock('c', 'todo', 'Sooner', due('2024-01-05')),
+                        createBlock('d', 'todo', 'Also no date'),
+                        createBlock('e', 'todo', 'Middle', due('2024-02-01')),
+                    ],
+                }),
+            );
+            const command = sortChildrenCommand(original, [0], 'dueDate')!;
+
+            const sorted = applyPatch(original, command.forward);
+            expect(sorted[0].children!.map((block) => block.id)).toEqual(['c', 'e', 'b', 'a', 'd']);
+        });
+
+        it('should restore the exact original order on undo', () => {
+            const original = createDoc(
+                createBlock('a', 'todo', 'A', due('2024-05-01')),
+                createBlock('b', 'todo', 'B'),
+                createBlock('c', 'todo', 'C', due('2024-01-01')),
+                createBlock('d', 'todo', 'D', due('2024-03-01')),
+            );
+            const command = sortChildrenCommand(original, null, 'dueDate')!;
+
+            const sorted = applyPatch(original, command.forward);
+            expect(sorted.map((block) => block.id)).toEqual(['c', 'd', 'a', 'b']);
+            expect(applyPatch(sorted, command.inverse)).toEqual(original);
+        });
+
+        it('should order children alphabetically, ignoring case and comparing numbers by value', () => {
+            const original = createDoc(createBlock('a', 'text', 'banana'), createBlock('b', 'text', 'Item 10'), createBlock('c', 'text', 'apple'), createBlock('d', 'text', 'item 9'));
+            const command = sortChildrenCommand(original, null, 'alphabetical')!;
+
+            const sorted = applyPatch(original, command.forward);
+            expect(sorted.map((block) => block.id)).toEqual(['c', 'a', 'd', 'b']);
+            expect(applyPatch(sorted, command.inverse)).toEqual(original);
+        });
+
+        it('should move done todos first or last while keeping the rest in order', () => {
+            const original = createDoc(
+                createBlock('a', 'todo', 'A', { done: true }),
+                createBlock('b', 'todo', 'B', { done: false }),
+                createBlock('c', 'text', 'C'),
+                createBlock('d', 'todo', 'D', { done: true }),
+                createBlock('e', 'todo', 'E', { done: false }),
+            );
+
+            const doneLast = sortChildrenCommand(original, null, 'doneLast')!;
+            const sortedLast = applyPatch(original, doneLast.forward);
+            expect(sortedLast.map((block) => block.id)).toEqual(['b', 'c', 'e', 'a', 'd']);
+            expect(applyPatch(sortedLast, doneLast.inverse)).toEqual(original);
+
+            const doneFirst = sortChildrenCommand(original, null, 'doneFirst')!;
+            const sortedFirst = applyPatch(original, doneFirst.forward);
+            expect(sortedFirst.map((block) => block.id)).toEqual(['a', 'd', 'b', 'c', 'e']);
+            expect(doneFirst.forward.ops.every((op) => op.type === 'move')).toBe(true);
+            expect(applyPatch(sortedFirst, doneFirst.inverse)).toEqual(original);
+        });
+
+        it('should return null when children are already sorted', () => {
+            const doc = createDoc(createBlock('a', 'todo', 'A', due('2024-01-01')), createBlock('b', 'todo', 'B'));
+
+            expect(sortChildrenCommand(doc, null, 'dueDate')).toBeNull();
+        });
+    });
+
+    describe('completed todo commands', () => {
+        const ids = (blocks: BlockArray): string[] => blocks.map((block) => block.id);
+        const createList = () =>
+            createDoc(
+                createBlock('a', 'todo', 'A', { done: true }),
+                createBlock('p', 'text', 'Parent', {
+                    children: [
+                        createBlock('b', 'todo', 'B', { done: false }),
+                        createBlock('c', 'todo', 'C', { done: true, children: [createBlock('d', 'todo', 'D', { done: true })] }),
+                    ],
+                }),
+                createBlock('e', 'todo', 'E', { done: false }),
+            );
+
+        it('should clear every done todo in the document as one undoable command', () => {
+            const original = createList();
+            const command = clearCompletedCommand(original, null)!;
+
+            const cleared = applyPatch(original, command.forward);
+            expect(ids(cleared)).toEqual(['p', 'e']);
+            expect(ids(cleared[0].children!)).toEqual(['b']);
+            expect(applyPatch(cleared, command.inverse)).toEqual(original);
+        });
+
+        it('should only clear done todos under the given block', () => {
+            const original = createList();
+            const cleared = applyPatch(original, clearCompletedCommand(original, [1])!.forward);
+
+            expect(ids(cleared)).toEqual(['a', 'p', 'e']);
+            expect(ids(cleared[1].children!)).toEqual(['b']);
+            expect(clearCompletedCommand(original, [2])).toBeNull();
+        });
+
+        it('should create the archive section and move done todos into it in document order', () => {
+            const original = createList();
+            const command = archiveCompletedCommand(original, null)!;
+
+            const archived = applyPatch(original, command.forward);
+            expect(ids(archived).slice(0, 2)).toEqual(['p', 'e']);
+            expect(archived[2]).toMatchObject({ type: 'heading', content: 'Archive', level: 2 });
+            expect(ids(archived[2].children!)).toEqual(['a', 'c']);
+            expect(ids(archived[2].children![1].children!)).toEqual(['d']);
+            expect(applyPatch(archived, command.inverse)).toEqual(original);
+        });
+
+        it('should append to an existing archive section and leave archived todos alone', () => {
+            const original = createDoc(
+                createBlock('x', 'heading', 'Archive', { level: 2, children: [createBlock('old', 'todo', 'Old', { done: true })] }),
+                createBlock('a', 'todo', 'A', { done: true }),
+                createBlock('b', 'todo', 'B', { done: true }),
+            );
+            const command = archiveCompletedCommand(original, null)!;
+
+            const archived = applyPatch(original, command.forward);
+            expect(ids(archived)).toEqual(['x']);
+            expect(ids(archived[0].children!)).toEqual(['old', 'a', 'b']);
+            expect(applyPatch(archived, command.inverse)).toEqual(original);
+            expect(archiveCompletedCommand(archived, null)).toBeNull();
+        });
+    });
+
+    describe('batch commands', () => {
+        const ids = (blocks: BlockArray): string[] => blocks.map((block) => block.id);
+        const createTree = () =>
+            createDoc(
+                createBlock('a', 'todo', 'A', { done: false }),
+                createBlock('b', 'todo', 'B', { done: true, children: [createBlock('b1', 'text', 'B1'), createBlock('b2', 'todo', 'B2', { done: false })] }),
+                createBlock('c', 'text', 'C'),
+                createBlock('d', 'todo', 'D', { done: false }),
+            );
+
+        it('should delete selected subtrees once and restore them in one step', () => {
+            const original = createTree();
+            const command = deleteBlocksCommand(original, [[1, 1], [0], [1], [3]])!;
+
+            const deleted = applyPatch(original, command.forward);
+            expect(ids(deleted)).toEqual(['c']);
+            expect(applyPatch(deleted, command.inverse)).toEqual(original);
+        });
+
+        it('should mark all selected todos done unless all already are', () => {
+            const original = createTree();
+            const command = toggleTodosCommand(original, [[0], [1], [2], [1, 1]])!;
+
+            const toggled = applyPatch(original, command.forward);
+            expect([toggled[0].done, toggled[1].done, toggled[1].children![1].done]).toEqual([true, true, true]);
+            expect(command.forward.ops).toHaveLength(2);
+            expect(applyPatch(toggled, command.inverse)).toEqual(original);
+        });
+
+        it('should indent adjacent blocks into the previous sibling in order', () => {
+            const original = createTree();
+            const command = indentBlocksCommand(original, [[2], [3]])!;
+
+            const indented = applyPatch(original, command.forward);
+            expect(ids(indented)).toEqual(['a', 'b']);
+            expect(ids(indented[1].children!)).toEqual(['b1', 'b2', 'c', 'd']);
+            expect(applyPatch(indented, command.inverse)).toEqual(original);
+        });
+
+        it('should outdent adjacent blocks after their parent in order', () => {
+            const original = createTree();
+            const command = outdentBlocksCommand(original, [[1, 0], [1, 1]])!;
+
+            const outdented = applyPatch(original, command.forward);
+            expect(ids(outdented)).toEqual(['a', 'b', 'b1', 'b2', 'c', 'd']);
+            expect(outdented[1].children).toEqual([]);
+            expect(applyPatch(outdented, command.inverse)).toEqual(original);
+        });
+
+        it('should move a selection by one position and undo exactly', () => {
+            const original = createTree();
+
+            const down = moveBlocksCommand(original, [[0], [2]], 'down')!;
+            const movedDown = applyPatch(original, down.forward);
+            expect(ids(movedDown)).toEqual(['b', 'a', 'd', 'c']);
+            expect(applyPatch(movedDown, down.inverse)).toEqual(original);
+
+            const up = moveBlocksCommand(original, [[0], [1], [3]], 'up')!;
+            const movedUp = applyPatch(original, up.forward);
+            expect(ids(movedUp)).toEqual(['a', 'b', 'd', 'c']);
+            expect(applyPatch(movedUp, up.inverse)).toEqual(original);
+        });
+
+        it('should return null when nothing can change', () => {
+            const original = createTree();
+
+            expect(moveBlocksCommand(original, [[0]], 'up')).toBeNull();
+            expect(indentBlocksCommand(original, [[0]])).toBeNull();
+            expect(outdentBlocksCommand(original, [[2]])).toBeNull();
+            expect(toggleTodosCommand(original, [[2]])).toBeNull();
+        });
+    });
 });
@@ -1,10 +1,125 @@
-import { BlockArray, BlockType, Command, Path } from '../types';
-import { createBlock, getBlockAtPath, getParentArray, isTodoBlock } from '../utils';
+import { ARCHIVE_CONFIG } from '../config';
+import { diffMarks, MarkChanges, rebaseMarks, toggleMarkRange } from '../marks/marks';
+import { applyPatch } from '../patches/patches';
+import { Block, BlockArray, BlockType, ChildSortOrder, Command, HeadingLevel, InlineMark, MoveDirection, Path, PatchOp, PropertyValue, TextReplacement, Transaction } from '../types';
+import {
+    CHILD_SORT_COMPARATORS,
+    cloneBlockWithNewIds,
+    comparePaths,
+    containsPageBlock,
+    createBlock,
+    getArchiveIndex,
+    getBlockAtPath,
+    getBlockPosition,
+    getCompletedTodoPaths,
+    getDefaultTypeAttributes,
+    getParentArray,
+    getPreviousBlock,
+    getTopLevelPaths,
+    getTypeAttributes,
+    getTypingShortcut,
+    isCodeBlock,
+    isHeadingBlock,
+    isPageBlock,
+    isTodoBlock,
+    pathEquals,
+} from '../utils';
+
+/**
+ * Combine commands into one that applies them in order and undoes them in reverse order.
+ * Each command must have been built against the document produced by the previous ones.
+ */
+export const composeCommands = (...commands: Command[]): Command => {
+    return {
+        forward: { ops: commands.flatMap((command) => command.forward.ops) },
+        inverse: { ops: [...commands].reverse().flatMap((command) => command.inverse.ops) },
+    };
+};
+
+/**
+ * Run several edits as one command with an optional history label. Each command executed through the transaction is
+ * built against the document left by the previous ones; if any of them is null, or none is executed, the whole
+ * transaction is aborted and null is returned.
+ */
+export const transactCommands = (doc: BlockArray, fn: (transaction: Transaction) => void, label?: string): Command | null => {
+    const commands: Command[] = [];
+    let working = doc;
+    let aborted = false;
+
+    fn({
+        get doc() {
+            return working;
+        },
+        execute: (command) => {
+            if (aborted || !command) {
+                aborted = true;
+                return false;
+            }
+            commands.push(command);
+            working = applyPatch(working, command.forward);
+            return true;
+        },
+    });
+
+    if (aborted || commands.length === 0) return null;
+    const composed = composeCommands(...commands);
+    return label ? { ...composed, label } : composed;
+};
+
+type ContentUpdateOp = Extract<PatchOp, { type: 'update'; field: 'content' }>;
+
+const isContentUpdateOp = (op: PatchOp): op is ContentUpdateOp => op.type === 'update' && op.field === 'content';
+
+// The block a command only edits the text and marks of, or null if it touches anything else
+const getTextEditPath = (command: Command): Path | null => {
+    const path = command.forward.ops.find(isContentUpdateOp)?.path;
+    if (!path) return null;
+
+    const isTextEditOp = (op: PatchOp) => (isContentUpdateOp(op) || op.type === 'addMark' || op.type === 'removeMark') && pathEquals(op.path, path);
+    return command.forward.ops.every(isTextEditOp) && command.inverse.ops.every(isTextEditOp) ? path : null;
+};
+
+/**
+ * Fold a later text edit of a block into an earlier one, e.g. to record a typing session as one history node.
+ * Only one content update is kept, going from the first edit's old text to the last edit's text; mark ops do not
+ * depend on the text, so they are kept in order. Returns null unless both commands only edit the same block's text and marks.
+ */
+export const coalesceTextEdits = (first: Command, second: Command): Command | null => {
+    const path = getTextEditPath(first);
+    if (!path || !pathEquals(path, getTextEditPath(second))) return null;
+
+    const oldValue = first.forward.ops.find(isContentUpdateOp)!.oldValue;
+    const value = second.forward.ops.findLast(isContentUpdateOp)!.value;
+    const { forward, inverse } = composeCommands(first, second);
+    const withoutContent = (ops: PatchOp[]) => ops.filter((op) => !isContentUpdateOp(op));
+
+    return {
+        forward: { ops: [{ type: 'update', path, field: 'content', value, oldValue }, ...withoutContent(forward.ops)] },
+        inverse: { ops: [...withoutContent(inverse.ops), { type: 'update', path, field: 'content', value: oldValue, oldValue: value }] },
+    };
+};
+
+const markChangeOps = (path: Path, { removed, added }: MarkChanges): { forward: PatchOp[]; inverse: PatchOp[] } => {
+    return {
+        forward: [
+            ...removed.map((mark): PatchOp => ({ type: 'removeMark', path, mark })),
+            ...added.map((mark): PatchOp => ({ type: 'addMark', path, mark })),
+        ],
+        inverse: [
+            ...added.map((mark): PatchOp => ({ type: 'removeMark', path, mark })),
+            ...removed.map((mark): PatchOp => ({ type: 'addMark', path, mark })),
+        ],
+    };
+};
 
 export const updateContentCommand = (doc: BlockArray, path: Path, newContent: string): Command | null => {
     const block = getBlockAtPath(doc, path);
     if (!block) return null;
 
+    // Keep inline marks attached to the text they covered
+    const marks = block.marks ?? [];
+    const markOps = markChangeOps(path, diffMarks(marks, rebaseMarks(marks, block.content, newContent)));
+
     return {
         forward: {
             ops: [
@@ -15,10 +130,12 @@ export const updateContentCommand = (doc: BlockArray, path: Path, newContent: st
                     value: newContent,
                     oldValue: block.content,
                 },
+                ...markOps.forward,
             ],
         },
         inverse: {
             ops: [
+                ...markOps.inverse,
                 {
                     type: 'update',
                     path,
@@ -31,6 +148,44 @@ export const updateContentCommand = (doc: BlockArray, path: Path, newContent: st
     };
 };
 
+/**
+ * Replace ranges of block content (e.g. search matches) as one command.
+ * Ranges are applied from the end of the document backwards so earlier offsets stay valid,
+ * one content update each so inline marks are rebased around every replaced range.
+ */
+export const replaceTextCommand = (doc: BlockArray, replacements: TextReplacement[]): Command | null => {
+    const ordered = [...replacements].sort((a, b) => comparePaths(b.path, a.path) || b.start - a.start);
+    const commands: Command[] = [];
+    let working = doc;
+
+    for (const { path, start, end, text } of ordered) {
+        const block = getBlockAtPath(working, path);
+        if (!block || start > end || end > block.content.length) continue;
+
+        const command = updateContentCommand(working, path, block.content.slice(0, start) + text + block.content.slice(end));
+        if (!command) continue;
+        commands.push(command);
+        working = applyPatch(working, command.forward);
+    }
+
+    return commands.length > 0 ? composeCommands(...commands) : null;
+};
+
+export const toggleMarkCommand = (doc: BlockArray, path: Path, mark: InlineMark): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block || isCodeBlock(block)) return null;
+    if (mark.start >= mark.end || mark.end > block.content.length) return null;
+
+    const changes = toggleMarkRange(block.marks ?? [], mark);
+    if (changes.removed.length === 0 && changes.added.length === 0) return null;
+
+    const markOps = markChangeOps(path, changes);
+    return {
+        forward: { ops: markOps.forward },
+        inverse: { ops: markOps.inverse },
+    };
+};
+
 export const toggleTodoCommand = (doc: BlockArray, path: Path): Command | null => {
     const block = getBlockAtPath(doc, path);
     if (!block || !isTodoBlock(block)) return null;
@@ -63,9 +218,186 @@ export const toggleTodoCommand = (doc: BlockArray, path: Path): Command | null =
     };
 };
 
+export const setHeadingLevelCommand = (doc: BlockArray, path: Path, level: HeadingLevel): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block || !isHeadingBlock(block)) return null;
+
+    const currentLevel = block.level ?? 1;
+    if (currentLevel === level) return null;
+
+    return {
+        forward: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'level',
+                    value: level,
+                    oldValue: currentLevel,
+                },
+            ],
+        },
+        inverse: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'level',
+                    value: currentLevel,
+                    oldValue: level,
+                },
+            ],
+        },
+    };
+};
+
+export const setCodeLanguageCommand = (doc: BlockArray, path: Path, language: string): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block || !isCodeBlock(block) || !block.language) return null;
+
+    const currentLanguage = block.language;
+    if (currentLanguage === language) return null;
+
+    return {
+        forward: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'language',
+                    value: language,
+                    oldValue: currentLanguage,
+                },
+            ],
+        },
+        inverse: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'language',
+                    value: currentLanguage,
+                    oldValue: language,
+                },
+            ],
+        },
+    };
+};
+
+/**
+ * Change a block's type, replacing its type-specific fields with the new type's defaults.
+ * Page blocks keep their type, since converting one would orphan its sub-page.
+ */
+export const convertBlockTypeCommand = (doc: BlockArray, path: Path, newType: BlockType): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block || block.type === newType || isPageBlock(block)) return null;
+
+    const oldType = block.type;
+    const oldAttributes = getTypeAttributes(block);
+    const attributes = getDefaultTypeAttributes(newType);
+
+    return {
+        forward: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'type',
+                    value: newType,
+                    oldValue: oldType,
+                    attributes,
+                    oldAttributes,
+                },
+            ],
+        },
+        inverse: {
+            ops: [
+                {
+                    type: 'update',
+                    path,
+                    field: 'type',
+                    value: oldType,
+                    oldValue: newType,
+                    attributes: oldAttributes,
+                    oldAttributes: attributes,
+                },
+            ],
+        },
+    };
+};
+
+/**
+ * Turn a block into another type, or a heading into a heading of another level (e.g. from the "Turn into" menu).
+ * A level given for a heading is set as part of the same command; returns null if the block already has that type and level.
+ */
+export const turnIntoCommand = (doc: BlockArray, path: Path, type: BlockType, level?: HeadingLevel): Command | null => {
+    const convert = convertBlockTypeCommand(doc, path, type);
+    if (type !== 'heading' || !level) return convert;
+
+    const setLevel = setHeadingLevelCommand(convert ? applyPatch(doc, convert.forward) : doc, path, level);
+    if (!convert) return setLevel;
+    return setLevel ? composeCommands(convert, setLevel) : convert;
+};
+
+/**
+ * Apply the Markdown-style prefix at the start of a block (see getTypingShortcut): convert the block,
+ * mark it done for `[x] `, and strip the prefix. Returns null if the content has no such prefix.
+ */
+export const typingShortcutCommand = (doc: BlockArray, path: Path): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    const shortcut = block && getTypingShortcut(block, block.content);
+    if (!block || !shortcut) return null;
+
+    const convert = convertBlockTypeCommand(doc, path, shortcut.type);
+    if (!convert) return null;
+    const commands = [convert];
+    let working = applyPatch(doc, convert.forward);
+
+    if (shortcut.done) {
+        const complete = toggleTodoCommand(working, path)!;
+        commands.push(complete);
+        working = applyPatch(working, complete.forward);
+    }
+
+    commands.push(updateContentCommand(working, path, block.content.slice(shortcut.prefixLength))!);
+    return composeCommands(...commands);
+};
+
+export const setPropertyCommand = (doc: BlockArray, path: Path, key: string, value: PropertyValue): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block) return null;
+
+    const oldValue = block.properties?.[key] ?? null;
+    if (oldValue && JSON.stringify(oldValue) === JSON.stringify(value)) return null;
+
+    return {
+        forward: {
+            ops: [{ type: 'setProperty', path, key, value, oldValue }],
+        },
+        inverse: {
+            ops: [oldValue ? { type: 'setProperty', path, key, value: oldValue, oldValue: value } : { type: 'removeProperty', path, key, oldValue: value }],
+        },
+    };
+};
+
+export const removePropertyCommand = (doc: BlockArray, path: Path, key: string): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    const oldValue = block?.properties?.[key];
+    if (!oldValue) return null;
+
+    return {
+        forward: {
+            ops: [{ type: 'removeProperty', path, key, oldValue }],
+        },
+        inverse: {
+            ops: [{ type: 'setProperty', path, key, value: oldValue, oldValue: null }],
+        },
+    };
+};
+
 // commands.ts
-export const insertBlockCommand = (parentPath: Path | null, index: number, type: BlockType): Command => {
-    const newBlock = createBlock(type);
+export const insertBlockCommand = (parentPath: Path | null, index: number, type: BlockType, level?: HeadingLevel): Command => {
+    const newBlock = createBlock(type, '', false, level);
     newBlock.autoFocus = true; // Set autoFocus flag
 
     return {
@@ -84,6 +416,44 @@ export const insertBlockCommand = (parentPath: Path | null, index: number, type:
         },
     };
 };
+/**
+ * Insert an existing block subtree (e.g. restored from the trash).
+ * The index is clamped to the parent's children; returns null if the parent no longer exists.
+ */
+export const insertBlockTreeCommand = (doc: BlockArray, parentPath: Path | null, index: number, block: Block): Command | null => {
+    const parent = parentPath === null ? null : getBlockAtPath(doc, parentPath);
+    if (parentPath !== null && !parent) return null;
+
+    const clampedIndex = Math.min(index, parent ? (parent.children?.length ?? 0) : doc.length);
+
+    return {
+        forward: {
+            ops: [{ type: 'insert', parentPath, index: clampedIndex, block }],
+        },
+        inverse: {
+            ops: [{ type: 'delete', parentPath, index: clampedIndex, deleted: block }],
+        },
+    };
+};
+/**
+ * Insert several block subtrees (e.g. pasted from the clipboard) one after another.
+ * The index is clamped to the parent's children; returns null if the parent no longer exists or there is nothing to insert.
+ */
+export const insertBlocksCommand = (doc: BlockArray, parentPath: Path | null, index: number, blocks: BlockArray): Command | null => {
+    const parent = parentPath === null ? null : getBlockAtPath(doc, parentPath);
+    if ((parentPath !== null && !parent) || blocks.length === 0) return null;
+
+    const clampedIndex = Math.min(index, parent ? (parent.children?.length ?? 0) : doc.length);
+
+    return {
+        forward: {
+            ops: blocks.map((block, offset): PatchOp => ({ type: 'insert', parentPath, index: clampedIndex + offset, block })),
+        },
+        inverse: {
+            ops: blocks.map((block, offset): PatchOp => ({ type: 'delete', parentPath, index: clampedIndex + offset, deleted: block })).reverse(),
+        },
+    };
+};
 export const deleteBlockCommand = (doc: BlockArray, parentPath: Path | null, index: number): Command | null => {
     const parent = getParentArray(doc, parentPath);
     if (!parent?.[index]) return null;
@@ -113,6 +483,25 @@ export const deleteBlockCommand = (doc: BlockArray, parentPath: Path | null, ind
         },
     };
 };
+/**
+ * Insert a copy of a block (with its whole subtree and fresh IDs) directly after it.
+ * Returns null for a subtree holding a page block, whose copy would share the original's sub-page.
+ */
+export const duplicateBlockCommand = (doc: BlockArray, parentPath: Path | null, index: number): Command | null => {
+    const parent = getParentArray(doc, parentPath);
+    if (!parent?.[index] || containsPageBlock(parent[index])) return null;
+
+    const copy = cloneBlockWithNewIds(parent[index]);
+
+    return {
+        forward: {
+            ops: [{ type: 'insert', parentPath, index: index + 1, block: copy }],
+        },
+        inverse: {
+            ops: [{ type: 'delete', parentPath, index: index + 1, deleted: copy }],
+        },
+    };
+};
 export const moveBlockCommand = (fromParentPath: Path | null, fromIndex: number, toParentPath: Path | null, toIndex: number): Command => {
     return {
         forward: {
@@ -139,3 +528,297 @@ export const moveBlockCommand = (fromParentPath: Path | null, fromIndex: number,
         },
     };
 };
+
+/**
+ * Reorder a block's children (or the root blocks when parentPath is null) with a stable sort.
+ * Produces one same-parent move per displaced block so the inverse restores the exact original order.
+ */
+export const sortChildrenCommand = (doc: BlockArray, parentPath: Path | null, order: ChildSortOrder): Command | null => {
+    const children = parentPath === null ? doc : getBlockAtPath(doc, parentPath)?.children;
+    if (!children || children.length < 2) return null;
+
+    const sorted = [...children].sort(CHILD_SORT_COMPARATORS[order]);
+    const working = [...children];
+    const forward: PatchOp[] = [];
+    const inverse: PatchOp[] = [];
+
+    sorted.forEach((block, targetIndex) => {
+        const fromIndex = working.indexOf(block);
+        if (fromIndex === targetIndex) return;
+
+        // Everything before targetIndex is already in place, so blocks only ever move up
+        working.splice(fromIndex, 1);
+        working.splice(targetIndex, 0, block);
+        forward.push({ type: 'move', fromParentPath: parentPath, fromIndex, toParentPath: parentPath, toIndex: targetIndex });
+        // Moving down within the same parent targets the index before removal, hence +1
+        inverse.unshift({ type: 'move', fromParentPath: parentPath, fromIndex: targetIndex, toParentPath: parentPath, toIndex: fromIndex + 1 });
+    });
+
+    if (forward.length === 0) return null;
+
+    return {
+        forward: { ops: forward },
+        inverse: { ops: inverse },
+    };
+};
+
+/**
+ * Move a block into its previous sibling as that sibling's last child.
+ * Built on moveBlockCommand, whose swapped inverse is exact for moves between different parents.
+ */
+export const indentBlockCommand = (doc: BlockArray, path: Path): Command | null => {
+    const index = path[path.length - 1];
+    if (index === undefined || index === 0 || !getBlockAtPath(doc, path)) return null;
+
+    const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+    const newParentPath = [...path.slice(0, -1), index - 1];
+    const newIndex = getBlockAtPath(doc, newParentPath)?.children?.length ?? 0;
+
+    return moveBlockCommand(parentPath, index, newParentPath, newIndex);
+};
+
+/**
+ * Move a nested block out of its parent, directly after the parent
+ */
+export const outdentBlockCommand = (doc: BlockArray, path: Path): Command | null => {
+    if (path.length < 2 || !getBlockAtPath(doc, path)) return null;
+
+    const index = path[path.length - 1];
+    const parentPath = path.slice(0, -1);
+    const parentIndex = parentPath[parentPath.length - 1];
+    const grandparentPath = parentPath.length > 1 ? parentPath.slice(0, -1) : null;
+
+    return moveBlockCommand(parentPath, index, grandparentPath, parentIndex + 1);
+};
+
+/**
+ * Swap a block with its previous or next sibling. Unlike moveBlockCommand, the inverse is exact for same-parent moves.
+ */
+export const moveBlockByOneCommand = (doc: BlockArray, path: Path, direction: MoveDirection): Command | null => {
+    const index = path[path.length - 1];
+    const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+    const siblingCount = parentPath === null ? doc.length : (getBlockAtPath(doc, parentPath)?.children?.length ?? 0);
+    if (index >= siblingCount) return null;
+
+    // Same-parent move targets are indices before removal, so moving down skips over the next sibling
+    if (direction === 'up') {
+        if (index === 0) return null;
+        return {
+            forward: { ops: [{ type: 'move', fromParentPath: parentPath, fromIndex: index, toParentPath: parentPath, toIndex: index - 1 }] },
+            inverse: { ops: [{ type: 'move', fromParentPath: parentPath, fromIndex: index - 1, toParentPath: parentPath, toIndex: index + 1 }] },
+        };
+    }
+
+    if (index === siblingCount - 1) return null;
+    return {
+        forward: { ops: [{ type: 'move', fromParentPath: parentPath, fromIndex: index, toParentPath: parentPath, toIndex: index + 2 }] },
+        inverse: { ops: [{ type: 'move', fromParentPath: parentPath, fromIndex: index + 1, toParentPath: parentPath, toIndex: index }] },
+    };
+};
+
+/**
+ * Split a block at a text offset: the block keeps the text (and children) before the offset,
+ * and a new block of the same type with the rest of the text and its marks is inserted after it.
+ * Code and page blocks are not split.
+ */
+export const splitBlockCommand = (doc: BlockArray, path: Path, offset: number): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    if (!block || isCodeBlock(block) || isPageBlock(block)) return null;
+    if (offset < 0 || offset > block.content.length) return null;
+
+    const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+    const index = path[path.length - 1];
+
+    const newBlock = createBlock(block.type, block.content.slice(offset), false, block.level);
+    const newMarks = (block.marks ?? [])
+        .filter((mark) => mark.end > offset)
+        .map((mark) => ({ ...mark, start: Math.max(mark.start, offset) - offset, end: mark.end - offset }));
+    if (newMarks.length > 0) newBlock.marks = newMarks;
+
+    const insert: Command = {
+        forward: { ops: [{ type: 'insert', parentPath, index: index + 1, block: newBlock }] },
+        inverse: { ops: [{ type: 'delete', parentPath, index: index + 1, deleted: newBlock }] },
+    };
+    const truncate = offset < block.content.length ? updateContentCommand(doc, path, block.content.slice(0, offset)) : null;
+
+    return truncate ? composeCommands(truncate, insert) : insert;
+};
+
+/**
+ * Merge a block into the block before it in document order: its text (and marks) are appended there,
+ * its children move to the end of that block's children (or take its place when merging into the parent),
+ * and the block is deleted. Returns null for the first block and when either block is a code or page block.
+ */
+export const mergeBlockCommand = (doc: BlockArray, path: Path): Command | null => {
+    const block = getBlockAtPath(doc, path);
+    const previous = getPreviousBlock(doc, path);
+    if (!block || !previous || isCodeBlock(block) || isPageBlock(block) || isCodeBlock(previous.block) || isPageBlock(previous.block)) return null;
+
+    const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+    const index = path[path.length - 1];
+    const target = previous.block;
+    const isParent = pathEquals(previous.path, parentPath);
+
+    // Neither path shifts: children go after the block (in its parent) or inside the previous sibling's subtree
+    const children = block.children ?? [];
+    const moves = children.map((_, childIndex) =>
+        moveBlockCommand(path, 0, previous.path, isParent ? index + 1 + childIndex : (target.children?.length ?? 0) + childIndex),
+    );
+
+    const joinAt = target.content.length;
+    const append = updateContentCommand(doc, previous.path, target.content + block.content)!;
+    const addedMarks = (block.marks ?? []).map((mark) => ({ ...mark, start: mark.start + joinAt, end: mark.end + joinAt }));
+    const marks = markChangeOps(previous.path, { removed: [], added: addedMarks });
+
+    const emptied: Block = { ...block };
+    delete emptied.children;
+    if (children.length > 0) emptied.children = [];
+
+    return composeCommands(
+        append,
+        { forward: { ops: marks.forward }, inverse: { ops: marks.inverse } },
+        ...moves,
+        {
+            forward: { ops: [{ type: 'delete', parentPath, index, deleted: emptied }] },
+            inverse: { ops: [{ type: 'insert', parentPath, index, block: emptied }] },
+        },
+    );
+};
+
+/**
+ * Build per-block commands one after another against the document produced by the previous ones,
+ * then compose them into a single command. Blocks are tracked by ID since earlier steps can shift paths.
+ */
+const composeSequential = (doc: BlockArray, blockIds: string[], build: (doc: BlockArray, path: Path) => Command | null): Command | null => {
+    const commands: Command[] = [];
+    let working = doc;
+
+    for (const blockId of blockIds) {
+        const position = getBlockPosition(working, blockId);
+        const command = position && build(working, position.path);
+        if (!command) continue;
+
+        commands.push(command);
+        working = applyPatch(working, command.forward);
+    }
+
+    return commands.length > 0 ? composeCommands(...commands) : null;
+};
+
+const getTopLevelBlockIds = (doc: BlockArray, paths: Path[]): string[] => {
+    return getTopLevelPaths(paths)
+        .map((path) => getBlockAtPath(doc, path)?.id)
+        .filter((id): id is string => id !== undefined);
+};
+
+/**
+ * Delete several blocks (and their subtrees) in one command.
+ * Deletes run in reverse document order so each recorded path is still valid when applied.
+ */
+export const deleteBlocksCommand = (doc: BlockArray, paths: Path[]): Command | null => {
+    const forward: PatchOp[] = [];
+    const inverse: PatchOp[] = [];
+
+    [...getTopLevelPaths(paths)].reverse().forEach((path) => {
+        const block = getBlockAtPath(doc, path);
+        if (!block) return;
+
+        const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+        const index = path[path.length - 1];
+        forward.push({ type: 'delete', parentPath, index, deleted: block });
+        inverse.unshift({ type: 'insert', parentPath, index, block });
+    });
+
+    if (forward.length === 0) return null;
+
+    return {
+        forward: { ops: forward },
+        inverse: { ops: inverse },
+    };
+};
+
+/**
+ * Toggle several todos together: all become done unless they already all are
+ */
+export const toggleTodosCommand = (doc: BlockArray, paths: Path[]): Command | null => {
+    const todos = paths.map((path) => ({ path, block: getBlockAtPath(doc, path) })).filter(({ block }) => block && isTodoBlock(block));
+    if (todos.length === 0) return null;
+
+    const done = !todos.every(({ block }) => block!.done);
+    const changed = todos.filter(({ block }) => (block!.done ?? false) !== done);
+
+    return {
+        forward: { ops: changed.map(({ path }): PatchOp => ({ type: 'update', path, field: 'done', value: done, oldValue: !done })) },
+        inverse: { ops: changed.map(({ path }): PatchOp => ({ type: 'update', path, field: 'done', value: !done, oldValue: done })) },
+    };
+};
+
+/**
+ * Indent several blocks in one command, in document order so adjacent blocks keep their order
+ */
+export const indentBlocksCommand = (doc: BlockArray, paths: Path[]): Command | null => {
+    return composeSequential(doc, getTopLevelBlockIds(doc, paths), indentBlockCommand);
+};
+
+/**
+ * Outdent several blocks in one command, in reverse document order so adjacent blocks keep their order
+ */
+export const outdentBlocksCommand = (doc: BlockArray, paths: Path[]): Command | null => {
+    return composeSequential(doc, getTopLevelBlockIds(doc, paths).reverse(), outdentBlockCommand);
+};
+
+/**
+ * Move several blocks one position up or down among their siblings in one command.
+ * A block that would pass another selected block stays put, so the selection keeps its shape.
+ */
+export const moveBlocksCommand = (doc: BlockArray, paths: Path[], direction: MoveDirection): Command | null => {
+    const blockIds = getTopLevelBlockIds(doc, paths);
+    const ordered = direction === 'up' ? blockIds : [...blockIds].reverse();
+
+    // Blocks closest to the edge move first, so a selected neighbor is only still adjacent if it could not move
+    return composeSequential(doc, ordered, (working, path) => {
+        const index = path[path.length - 1];
+        const siblings = path.length > 1 ? (getBlockAtPath(working, path.slice(0, -1))?.children ?? []) : working;
+        const neighbor = siblings[direction === 'up' ? index - 1 : index + 1];
+
+        return neighbor && !blockIds.includes(neighbor.id) ? moveBlockByOneCommand(working, path, direction) : null;
+    });
+};
+
+/**
+ * Delete every done todo (with its subtree) under a block, or in the whole document when scopePath is null
+ */
+export const clearCompletedCommand = (doc: BlockArray, scopePath: Path | null): Command | null => {
+    const blockIds = getTopLevelBlockIds(doc, getCompletedTodoPaths(doc, scopePath));
+
+    return composeSequential(doc, blockIds, (working, path) => deleteBlockCommand(working, path.length > 1 ? path.slice(0, -1) : null, path[path.length - 1]));
+};
+
+/**
+ * Move every done todo (with its subtree) under a block, or in the whole document when scopePath is null, to the end of the archive section.
+ * The archive heading is created at the end of the document if it does not exist yet; todos already in it are left alone.
+ */
+export const archiveCompletedCommand = (doc: BlockArray, scopePath: Path | null): Command | null => {
+    const existingIndex = getArchiveIndex(doc);
+    const paths = getCompletedTodoPaths(doc, scopePath).filter((path) => path[0] !== existingIndex);
+    const blockIds = getTopLevelBlockIds(doc, paths);
+    if (blockIds.length === 0) return null;
+
+    const archive = existingIndex === -1 ? createBlock('heading', ARCHIVE_CONFIG.TITLE, false, ARCHIVE_CONFIG.HEADING_LEVEL) : doc[existingIndex];
+    const createArchive = existingIndex === -1 ? insertBlockTreeCommand(doc, null, doc.length, { ...archive, children: [] }) : null;
+    const working = createArchive ? applyPatch(doc, createArchive.forward) : doc;
+    const archivedCount = archive.children?.length ?? 0;
+
+    // Moving in reverse document order to the same index keeps the archived todos in document order
+    const moves = composeSequential(working, [...blockIds].reverse(), (current, path) => {
+        const parentPath = path.length > 1 ? path.slice(0, -1) : null;
+        const index = path[path.length - 1];
+        const archiveIndex = getBlockPosition(current, archive.id)!.path[0];
+        // The target path is resolved after the block is removed, which shifts the archive up when it is a later root sibling
+        const archivePath = [parentPath === null && index < archiveIndex ? archiveIndex - 1 : archiveIndex];
+
+        return moveBlockCommand(parentPath, index, archivePath, archivedCount);
+    });
+
+    return createArchive && moves ? composeCommands(createArchive, moves) : moves;
+};
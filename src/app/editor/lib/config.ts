@@ -1,3 +1,5 @@
+import { HeadingLevel, KeyBinding, PropertyDefinition, SearchOptions } from './types';
+
 /**
  * Storage configuration constants
  */
@@ -7,6 +9,23 @@ export const STORAGE_CONFIG = {
      */
     EDITOR_STATE_KEY: 'mini-notion-editor-state',
 
+    /**
+     * Key for storing the workspace document list in localStorage.
+     * Each document's editor state is stored under `${EDITOR_STATE_KEY}:${docId}`
+     */
+    WORKSPACE_KEY: 'mini-notion-workspace',
+
+    /**
+     * Key for storing the trash of deleted blocks in localStorage.
+     * Kept apart from editor state so history resets and workspace resets leave it intact
+     */
+    TRASH_KEY: 'mini-notion-trash',
+
+    /**
+     * Key for storing the user's keymap overrides in localStorage
+     */
+    KEYMAP_KEY: 'mini-notion-keymap',
+
     /**
      * Version number for stored state schema
      * Increment this when making breaking changes to the persisted state structure
@@ -18,3 +37,155 @@ export const STORAGE_CONFIG = {
      */
     AUTO_SAVE_DELAY_MS: 500,
 } as const;
+
+/**
+ * Workspace configuration constants
+ */
+export const WORKSPACE_CONFIG = {
+    /**
+     * Title given to newly created documents
+     */
+    DEFAULT_DOCUMENT_TITLE: 'Untitled',
+
+    /**
+     * Title of the document created on first visit (or imported from single-document storage)
+     */
+    WELCOME_DOCUMENT_TITLE: 'Getting started',
+} as const;
+
+/**
+ * Trash configuration constants
+ */
+export const TRASH_CONFIG = {
+    /**
+     * Maximum number of deleted subtrees kept; the oldest entries are dropped first
+     */
+    MAX_ENTRIES: 100,
+} as const;
+
+/**
+ * History configuration constants
+ */
+export const HISTORY_CONFIG = {
+    /**
+     * Typing in one editing session is folded into the same history node until it pauses for this long (ms)
+     */
+    COALESCE_IDLE_MS: 5000,
+} as const;
+
+/**
+ * Archive section configuration constants
+ */
+export const ARCHIVE_CONFIG = {
+    /**
+     * Title of the top-level heading that archived todos are moved under; it is created on first use
+     */
+    TITLE: 'Archive',
+    HEADING_LEVEL: 2 as HeadingLevel,
+} as const;
+
+/**
+ * Code block configuration constants
+ */
+export const CODE_BLOCK_CONFIG = {
+    /**
+     * Language assigned to newly created code blocks
+     */
+    DEFAULT_LANGUAGE: 'plaintext',
+
+    /**
+     * Languages offered in the code block language picker
+     */
+    LANGUAGES: ['plaintext', 'typescript', 'javascript', 'json', 'html', 'css', 'python', 'bash', 'sql', 'markdown'],
+} as const;
+
+/**
+ * Block property configuration constants
+ */
+export const PROPERTY_CONFIG = {
+    /**
+     * Properties offered in the property editor, keyed by property name.
+     * Blocks may carry other properties, but these must use the declared kind.
+     */
+    KNOWN_PROPERTIES: {
+        tags: { label: 'Tags', kind: 'list' },
+        dueDate: { label: 'Due date', kind: 'date' },
+        assignee: { label: 'Assignee', kind: 'string' },
+        priority: { label: 'Priority', kind: 'enum', options: ['low', 'medium', 'high'] },
+    } as Record<string, PropertyDefinition>,
+} as const;
+
+/**
+ * Block clipboard configuration constants
+ */
+export const CLIPBOARD_CONFIG = {
+    /**
+     * Clipboard format carrying copied blocks as JSON, so they paste back with all their attributes
+     */
+    BLOCKS_MIME_TYPE: 'application/x-mini-notion-blocks',
+
+    /**
+     * Indentation per nesting level when copying as Markdown
+     */
+    MARKDOWN_INDENT: '  ',
+
+    /**
+     * Indentation per nesting level when copying as plain text
+     */
+    PLAIN_TEXT_INDENT: '\t',
+
+    /**
+     * Width of a tab when measuring the indentation of pasted plain text
+     */
+    TAB_WIDTH: 4,
+} as const;
+
+/**
+ * Find and replace configuration constants
+ */
+export const SEARCH_CONFIG = {
+    /**
+     * Options a new search starts with
+     */
+    DEFAULT_OPTIONS: { caseSensitive: false, regex: false, wholeWord: false } as SearchOptions,
+} as const;
+
+/**
+ * Keymap configuration constants
+ */
+export const KEYMAP_CONFIG = {
+    /**
+     * Default bindings of the editor's own actions. Registered commands add their shortcuts as global bindings,
+     * and users can rebind any action from the shortcut help overlay.
+     */
+    BINDINGS: [
+        { action: 'history.undo', label: 'Undo', keys: ['Mod+Z'], scope: 'global' },
+        { action: 'history.redo', label: 'Redo', keys: ['Mod+Shift+Z', 'Mod+Y'], scope: 'global' },
+        { action: 'palette.toggle', label: 'Command palette', keys: ['Mod+K'], scope: 'global' },
+        { action: 'search.open', label: 'Find and replace', keys: ['Mod+F'], scope: 'global' },
+        { action: 'help.toggle', label: 'Keyboard shortcuts', keys: ['Mod+/'], scope: 'global' },
+        { action: 'focus.previous', label: 'Focus previous block', keys: ['ArrowUp'], scope: 'global' },
+        { action: 'focus.next', label: 'Focus next block', keys: ['ArrowDown'], scope: 'global' },
+        { action: 'focus.first', label: 'Focus first block', keys: ['Home'], scope: 'global' },
+        { action: 'focus.last', label: 'Focus last block', keys: ['End'], scope: 'global' },
+        { action: 'focus.edit', label: 'Edit focused block', keys: ['Enter'], scope: 'global' },
+        { action: 'selection.extendUp', label: 'Extend selection up', keys: ['Shift+ArrowUp'], scope: 'selection' },
+        { action: 'selection.extendDown', label: 'Extend selection down', keys: ['Shift+ArrowDown'], scope: 'selection' },
+        { action: 'selection.moveUp', label: 'Move selected blocks up', keys: ['Alt+Shift+ArrowUp'], scope: 'selection' },
+        { action: 'selection.moveDown', label: 'Move selected blocks down', keys: ['Alt+Shift+ArrowDown'], scope: 'selection' },
+        { action: 'selection.indent', label: 'Indent selected blocks', keys: ['Tab'], scope: 'selection' },
+        { action: 'selection.outdent', label: 'Outdent selected blocks', keys: ['Shift+Tab'], scope: 'selection' },
+        { action: 'selection.toggleTodos', label: 'Toggle selected todos', keys: ['Mod+Enter'], scope: 'selection' },
+        { action: 'selection.delete', label: 'Delete selected blocks', keys: ['Delete', 'Backspace'], scope: 'selection' },
+        { action: 'selection.clear', label: 'Clear selection', keys: ['Escape'], scope: 'selection' },
+        { action: 'edit.bold', label: 'Bold', keys: ['Mod+B'], scope: 'editing' },
+        { action: 'edit.italic', label: 'Italic', keys: ['Mod+I'], scope: 'editing' },
+        { action: 'edit.code', label: 'Inline code', keys: ['Mod+E'], scope: 'editing' },
+        { action: 'edit.indent', label: 'Indent block (insert a tab in code blocks)', keys: ['Tab'], scope: 'editing' },
+        { action: 'edit.outdent', label: 'Outdent block', keys: ['Shift+Tab'], scope: 'editing' },
+        { action: 'edit.split', label: 'Split block at the caret', keys: ['Enter'], scope: 'editing' },
+        { action: 'edit.merge', label: 'Merge into the previous block at the start of the text', keys: ['Backspace'], scope: 'editing' },
+        { action: 'edit.save', label: 'Save and stop editing', keys: ['Mod+Enter'], scope: 'editing' },
+        { action: 'edit.revert', label: 'Revert edits and return to block focus', keys: ['Escape'], scope: 'editing' },
+    ] as KeyBinding[],
+} as const;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from './fuzzy';
+
+describe('fuzzy', () => {
+    describe('fuzzyScore', () => {
+        it('should match characters in order, ignoring case and spaces', () => {
+            expect(fuzzyScore('dup blk', 'Duplicate block')).not.toBeNull();
+            expect(fuzzyScore('', 'Anything')).toBe(0);
+            expect(fuzzyScore('kcolb', 'Duplicate block')).toBeNull();
+        });
+
+        it('should rank word starts and consecutive characters higher', () => {
+            expect(fuzzyScore('db', 'Duplicate block')!).toBeGreaterThan(fuzzyScore('db', 'Add bold')!);
+            expect(fuzzyScore('undo', 'Undo')!).toBeGreaterThan(fuzzyScore('undo', 'Unfold document')!);
+        });
+    });
+
+    describe('fuzzyFilter', () => {
+        it('should keep matching items, best first and otherwise in their original order', () => {
+            const labels = ['Export as Markdown', 'Move block down', 'Delete block', 'Insert todo', 'Move block up'];
+
+            expect(fuzzyFilter(labels, 'mb', (label) => label)).toEqual(['Move block down', 'Move block up']);
+            expect(fuzzyFilter(labels, 'md', (label) => label)).toEqual(['Move block down', 'Export as Markdown']);
+            expect(fuzzyFilter(labels, '', (label) => label)).toEqual(labels);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Score how well a query fuzzily matches a text: every query character (ignoring spaces) must appear in the text
+ * in order, case-insensitively. Characters at the start of a word or right after the previous match score higher.
+ * Returns null when the text does not match; an empty query matches everything with a score of 0.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const needle = query.toLowerCase().replaceAll(/\s+/g, '');
+    const haystack = text.toLowerCase();
+    let score = 0;
+    let position = 0;
+
+    for (const char of needle) {
+        const index = haystack.indexOf(char, position);
+        if (index === -1) return null;
+
+        const isWordStart = index === 0 || /[^a-z0-9]/.test(haystack[index - 1]);
+        const isConsecutive = index > 0 && index === position;
+        score += 1 + (isWordStart ? 3 : 0) + (isConsecutive ? 2 : 0);
+        position = index + 1;
+    }
+
+    return score;
+};
+
+/**
+ * Keep the items whose text fuzzily matches a query, best matches first; equal scores keep their original order
+ */
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+    return items
+        .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+        .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .map(({ item }) => item);
+};
@@ -74,6 +74,21 @@ export const addHistoryNode = (historyNodes: HistoryNode[], currentIndex: number
     return { nodes: updatedNodes, newIndex };
 };
 
+/**
+ * Replace a node's command with one that also covers a later change, e.g. further typing in the same block.
+ * Only a node without branches can be amended, since each branch's command was recorded against the node's original result.
+ *
+ * Returns the updated nodes array, or null when the change has to be added as a new node instead.
+ */
+export const amendHistoryNode = (historyNodes: HistoryNode[], index: number, command: Command): HistoryNode[] | null => {
+    const node = historyNodes[index];
+    if (!node || node.branches.length > 0) return null;
+
+    const updatedNodes = [...historyNodes];
+    updatedNodes[index] = { ...node, command, timestamp: Date.now() };
+    return updatedNodes;
+};
+
 /**
  * Get the parent index for undo operation.
  * Returns the parent index of the current node, or -1 if at a root node.
@@ -1,8 +1,14 @@
+export * from './clipboard/clipboard';
 export * from './commands/commands';
 export * from './config';
+export * from './fuzzy/fuzzy';
 export * from './history-tree';
+export * from './keymap/keymap';
+export * from './marks/marks';
 export * from './patches/patches';
 export * from './persistence/persistence';
+export * from './registry/registry';
+export * from './search/search';
 export * from './types';
 export * from './utils';
 export * from './validation/validation';
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { KEYMAP_CONFIG } from '../config';
+import { KeyBinding } from '../types';
+import { findKeyBinding, findKeymapConflicts, getActionShortcut, getCommandKeyBindings, getShortcutFromEvent, normalizeShortcut, resolveKeymap } from './keymap';
+
+const createBinding = (action: string, keys: string[], scope: KeyBinding['scope'] = 'global'): KeyBinding => ({ action, label: action, keys, scope });
+
+const createEvent = (key: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    ...modifiers,
+});
+
+describe('keymap', () => {
+    it('should normalize shortcuts so equal ones compare equal', () => {
+        expect(normalizeShortcut('shift+ctrl+K')).toBe('Mod+Shift+k');
+        expect(normalizeShortcut('Cmd+Alt+ArrowUp')).toBe('Mod+Alt+ArrowUp');
+        expect(normalizeShortcut('Tab')).toBe('Tab');
+    });
+
+    it('should read shortcuts from keyboard events, ignoring lone modifiers', () => {
+        expect(getShortcutFromEvent(createEvent('K', { metaKey: true, shiftKey: true }))).toBe('Mod+Shift+k');
+        expect(getShortcutFromEvent(createEvent('Escape'))).toBe('Escape');
+        expect(getShortcutFromEvent(createEvent('Control', { ctrlKey: true }))).toBeNull();
+    });
+
+    it('should apply overrides, unbinding actions overridden with no keys', () => {
+        const bindings = resolveKeymap([createBinding('undo', ['Mod+Z']), createBinding('help', ['Mod+/'])], { undo: ['Mod+U'], help: [], unknown: ['Mod+Q'] });
+
+        expect(bindings.map(({ action, keys }) => [action, keys])).toEqual([
+            ['undo', ['Mod+U']],
+            ['help', []],
+        ]);
+    });
+
+    it('should bind registered commands with a shortcut globally', () => {
+        const bindings = getCommandKeyBindings([
+            { id: 'block.duplicate', label: 'Duplicate', shortcut: 'Mod+D', factory: () => null },
+            { id: 'block.toggleTodo', label: 'Toggle todo', factory: () => null },
+        ]);
+
+        expect(bindings).toEqual([{ action: 'block.duplicate', label: 'Duplicate', keys: ['Mod+D'], scope: 'global' }]);
+    });
+
+    it('should report keys shared by several actions, across scopes too', () => {
+        const conflicts = findKeymapConflicts([
+            createBinding('undo', ['Mod+Z']),
+            createBinding('redo', ['mod+z', 'Mod+Y']),
+            createBinding('bold', ['Mod+B'], 'editing'),
+            createBinding('bookmark', ['Ctrl+B']),
+            createBinding('indent', ['Tab'], 'editing'),
+        ]);
+
+        expect(conflicts).toEqual([
+            { keys: 'Mod+z', actions: ['undo', 'redo'] },
+            { keys: 'Mod+b', actions: ['bold', 'bookmark'] },
+        ]);
+    });
+
+    it('should not report keys shared by scopes that never fire together', () => {
+        const conflicts = findKeymapConflicts([
+            createBinding('focus.edit', ['Enter']),
+            createBinding('edit.split', ['Enter'], 'editing'),
+            createBinding('selection.indent', ['Tab'], 'selection'),
+            createBinding('edit.indent', ['Tab'], 'editing'),
+            createBinding('focus.next', ['Shift+ArrowDown']),
+            createBinding('selection.extendDown', ['Shift+ArrowDown'], 'selection'),
+        ]);
+
+        expect(conflicts).toEqual([{ keys: 'Shift+ArrowDown', actions: ['focus.next', 'selection.extendDown'] }]);
+    });
+
+    it('should have no conflicts between the default bindings', () => {
+        expect(findKeymapConflicts(KEYMAP_CONFIG.BINDINGS)).toEqual([]);
+    });
+
+    it('should find the binding of the requested scope only', () => {
+        const bindings = [createBinding('bold', ['Mod+B'], 'editing'), createBinding('redo', ['Mod+Shift+Z', 'Mod+Y'])];
+
+        expect(findKeyBinding(bindings, createEvent('y', { ctrlKey: true }), 'global')?.action).toBe('redo');
+        expect(findKeyBinding(bindings, createEvent('b', { ctrlKey: true }), 'global')).toBeUndefined();
+        expect(findKeyBinding(bindings, createEvent('b', { metaKey: true }), 'editing')?.action).toBe('bold');
+    });
+
+    it('should format the first key of an action for display', () => {
+        const bindings = [createBinding('redo', ['Mod+Shift+Z', 'Mod+Y']), createBinding('help', [])];
+
+        expect(getActionShortcut(bindings, 'redo')).toBe('Ctrl+Shift+Z');
+        expect(getActionShortcut(bindings, 'help')).toBeUndefined();
+        expect(getActionShortcut(bindings, 'missing')).toBeUndefined();
+    });
+});
@@ -0,0 +1,80 @@
+import { EditorCommand, KeyBinding, KeymapConflict, KeymapOverrides, KeymapScope } from '../types';
+import { formatShortcut, matchesShortcut, parseShortcut } from '../registry/registry';
+
+type ShortcutEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>;
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Shift', 'Alt']);
+
+/**
+ * Write a shortcut in one canonical form (`Mod+Alt+Shift+key`, single-character keys lowercase) so equal shortcuts compare equal
+ */
+export const normalizeShortcut = (shortcut: string): string => {
+    const { key, mod, shift, alt } = parseShortcut(shortcut);
+    return [mod && 'Mod', alt && 'Alt', shift && 'Shift', key.length === 1 ? key.toLowerCase() : key].filter(Boolean).join('+');
+};
+
+/**
+ * Turn a keyboard event into a shortcut, e.g. when recording a new binding.
+ * Returns null while only modifier keys are pressed.
+ */
+export const getShortcutFromEvent = (event: ShortcutEvent): string | null => {
+    if (MODIFIER_KEYS.has(event.key)) return null;
+    return normalizeShortcut([(event.ctrlKey || event.metaKey) && 'Mod', event.altKey && 'Alt', event.shiftKey && 'Shift', event.key].filter(Boolean).join('+'));
+};
+
+/**
+ * Build the key bindings of registered commands that have a shortcut; they apply globally
+ */
+export const getCommandKeyBindings = (commands: EditorCommand[]): KeyBinding[] => {
+    return commands.filter((command) => command.shortcut).map((command) => ({ action: command.id, label: command.label, keys: [command.shortcut!], scope: 'global' }));
+};
+
+/**
+ * Apply the user's overrides to the default bindings; overrides for unknown actions are ignored
+ */
+export const resolveKeymap = (bindings: KeyBinding[], overrides: KeymapOverrides): KeyBinding[] => {
+    return bindings.map((binding) => (overrides[binding.action] ? { ...binding, keys: overrides[binding.action] } : binding));
+};
+
+/**
+ * Check whether bindings of two scopes can both fire for the same keys. Selection and editing bindings never do,
+ * as a block being edited holds the keyboard; global bindings fire while editing only with Ctrl/Cmd or Alt held.
+ */
+const scopesOverlap = (a: KeymapScope, b: KeymapScope, keys: string): boolean => {
+    if (a === b) return true;
+    if (a !== 'global' && b !== 'global') return false;
+    if (a === 'selection' || b === 'selection') return true;
+    const { mod, alt } = parseShortcut(keys);
+    return mod || alt;
+};
+
+/**
+ * Find keys bound to more than one action in scopes that overlap
+ */
+export const findKeymapConflicts = (bindings: KeyBinding[]): KeymapConflict[] => {
+    const bindingsByKeys = new Map<string, KeyBinding[]>();
+    bindings.forEach((binding) => {
+        new Set(binding.keys.map(normalizeShortcut)).forEach((keys) => bindingsByKeys.set(keys, [...(bindingsByKeys.get(keys) ?? []), binding]));
+    });
+    return [...bindingsByKeys.entries()]
+        .map(([keys, shared]) => ({
+            keys,
+            actions: shared.filter((binding) => shared.some((other) => other !== binding && scopesOverlap(binding.scope, other.scope, keys))).map((binding) => binding.action),
+        }))
+        .filter(({ actions }) => actions.length > 1);
+};
+
+/**
+ * Find the binding of a scope that a keyboard event triggers
+ */
+export const findKeyBinding = (bindings: KeyBinding[], event: ShortcutEvent, scope: KeymapScope): KeyBinding | undefined => {
+    return bindings.find((binding) => binding.scope === scope && binding.keys.some((keys) => matchesShortcut(event, keys)));
+};
+
+/**
+ * Get the first key bound to an action, formatted for display; undefined when the action is unbound
+ */
+export const getActionShortcut = (bindings: KeyBinding[], action: string): string | undefined => {
+    const keys = bindings.find((binding) => binding.action === action)?.keys[0];
+    return keys && formatShortcut(keys);
+};
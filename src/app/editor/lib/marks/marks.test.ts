@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { InlineMark } from '../types';
+import { diffMarks, getMarkedSegments, isRangeMarked, normalizeMarks, rebaseMarks, toggleMarkRange } from './marks';
+
+const bold = (start: number, end: number): InlineMark => ({ type: 'bold', start, end });
+const italic = (start: number, end: number): InlineMark => ({ type: 'italic', start, end });
+const link = (start: number, end: number, href: string): InlineMark => ({ type: 'link', start, end, href });
+
+describe('marks', () => {
+    describe('normalizeMarks', () => {
+        it('should sort marks by range then type', () => {
+            const result = normalizeMarks([italic(0, 4), bold(2, 3), bold(0, 4)]);
+
+            expect(result).toEqual([bold(0, 4), italic(0, 4), bold(2, 3)]);
+        });
+    });
+
+    describe('diffMarks', () => {
+        it('should report removed and added marks', () => {
+            const result = diffMarks([bold(0, 4), italic(5, 8)], [bold(0, 4), italic(6, 9)]);
+
+            expect(result.removed).toEqual([italic(5, 8)]);
+            expect(result.added).toEqual([italic(6, 9)]);
+        });
+
+        it('should treat links with different targets as different marks', () => {
+            const result = diffMarks([link(0, 4, 'https://a.test')], [link(0, 4, 'https://b.test')]);
+
+            expect(result.removed).toHaveLength(1);
+            expect(result.added).toHaveLength(1);
+        });
+    });
+
+    describe('rebaseMarks', () => {
+        it('should shift marks after an insertion before them', () => {
+            const result = rebaseMarks([bold(6, 11)], 'Hello world', 'Hello big world');
+
+            expect(result).toEqual([bold(10, 15)]);
+        });
+
+        it('should extend marks when typing inside them but not at their end', () => {
+            expect(rebaseMarks([bold(0, 4)], 'bold text', 'boXld text')).toEqual([bold(0, 5)]);
+            expect(rebaseMarks([bold(0, 4)], 'bold text', 'bold! text')).toEqual([bold(0, 4)]);
+        });
+
+        it('should shrink marks when part of their text is deleted', () => {
+            const result = rebaseMarks([bold(0, 9)], 'bold text here', 'bo text here');
+
+            expect(result).toEqual([bold(0, 7)]);
+        });
+
+        it('should drop marks whose text is deleted entirely', () => {
+            const result = rebaseMarks([bold(0, 4), italic(5, 9)], 'bold text', 'text');
+
+            expect(result).toEqual([italic(0, 4)]);
+        });
+    });
+
+    describe('isRangeMarked', () => {
+        it('should detect coverage across adjacent marks', () => {
+            const marks = [bold(0, 3), bold(3, 6)];
+
+            expect(isRangeMarked(marks, 'bold', 1, 5)).toBe(true);
+            expect(isRangeMarked(marks, 'bold', 1, 7)).toBe(false);
+            expect(isRangeMarked(marks, 'italic', 1, 5)).toBe(false);
+        });
+    });
+
+    describe('toggleMarkRange', () => {
+        it('should merge with touching marks of the same type', () => {
+            const result = toggleMarkRange([bold(0, 3), italic(0, 3)], bold(3, 6));
+
+            expect(result.removed).toEqual([bold(0, 3)]);
+            expect(result.added).toEqual([bold(0, 6)]);
+        });
+
+        it('should split a mark when clearing its middle', () => {
+            const result = toggleMarkRange([bold(0, 10)], bold(3, 6));
+
+            expect(result.removed).toEqual([bold(0, 10)]);
+            expect(result.added).toEqual([bold(0, 3), bold(6, 10)]);
+        });
+
+        it('should replace overlapping links with the new target', () => {
+            const result = toggleMarkRange([link(0, 4, 'https://old.test')], link(2, 8, 'https://new.test'));
+
+            expect(result.removed).toEqual([link(0, 4, 'https://old.test')]);
+            expect(result.added).toEqual([link(0, 2, 'https://old.test'), link(2, 8, 'https://new.test')]);
+        });
+    });
+
+    describe('getMarkedSegments', () => {
+        it('should split content at mark boundaries', () => {
+            const segments = getMarkedSegments('Hello world', [bold(0, 5), italic(3, 8)]);
+
+            expect(segments.map((segment) => segment.text)).toEqual(['Hel', 'lo', ' wo', 'rld']);
+            expect(segments[1].marks).toEqual([bold(0, 5), italic(3, 8)]);
+            expect(segments[3].marks).toEqual([]);
+        });
+
+        it('should return a single segment without marks', () => {
+            expect(getMarkedSegments('Plain')).toEqual([{ text: 'Plain', start: 0, end: 5, marks: [] }]);
+        });
+    });
+});
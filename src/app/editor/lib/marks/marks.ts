@@ -0,0 +1,157 @@
+import { InlineMark, MarkType } from '../types';
+
+export type MarkedSegment = {
+    text: string;
+    start: number;
+    end: number;
+    marks: InlineMark[];
+};
+
+export type MarkChanges = {
+    removed: InlineMark[];
+    added: InlineMark[];
+};
+
+const MARK_TYPE_ORDER: Record<MarkType, number> = {
+    bold: 0,
+    italic: 1,
+    code: 2,
+    link: 3,
+};
+
+/**
+ * Compare two marks for equality (type, range and link target)
+ */
+export const marksEqual = (a: InlineMark, b: InlineMark): boolean => {
+    if (a.type !== b.type || a.start !== b.start || a.end !== b.end) return false;
+    if (a.type === 'link' && b.type === 'link') return a.href === b.href;
+    return true;
+};
+
+/**
+ * Sort marks by range then type so add/remove round-trips are deterministic
+ */
+export const normalizeMarks = (marks: InlineMark[]): InlineMark[] => {
+    return [...marks].sort((a, b) => a.start - b.start || a.end - b.end || MARK_TYPE_ORDER[a.type] - MARK_TYPE_ORDER[b.type]);
+};
+
+/**
+ * Get the marks removed and added between two mark lists
+ */
+export const diffMarks = (before: InlineMark[], after: InlineMark[]): MarkChanges => {
+    return {
+        removed: before.filter((mark) => !after.some((other) => marksEqual(mark, other))),
+        added: after.filter((mark) => !before.some((other) => marksEqual(mark, other))),
+    };
+};
+
+/**
+ * Move mark ranges so they follow the text they covered after a content edit.
+ * The edit is located by diffing the common prefix and suffix of both strings;
+ * text inserted inside a mark extends it, text inserted at its edges does not.
+ * Marks whose text was deleted entirely are dropped.
+ */
+export const rebaseMarks = (marks: InlineMark[], oldContent: string, newContent: string): InlineMark[] => {
+    if (oldContent === newContent) return marks;
+
+    const maxAffix = Math.min(oldContent.length, newContent.length);
+    let prefix = 0;
+    while (prefix < maxAffix && oldContent[prefix] === newContent[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < maxAffix - prefix && oldContent[oldContent.length - 1 - suffix] === newContent[newContent.length - 1 - suffix]) suffix++;
+
+    const oldChangeEnd = oldContent.length - suffix;
+    const newChangeEnd = newContent.length - suffix;
+    const delta = newContent.length - oldContent.length;
+
+    const mapStart = (position: number): number => {
+        if (position < prefix) return position;
+        if (position >= oldChangeEnd) return position + delta;
+        return newChangeEnd;
+    };
+
+    const mapEnd = (position: number): number => {
+        if (position <= prefix) return position;
+        if (position >= oldChangeEnd) return position + delta;
+        return prefix;
+    };
+
+    return marks.map((mark) => ({ ...mark, start: mapStart(mark.start), end: mapEnd(mark.end) })).filter((mark) => mark.start < mark.end);
+};
+
+/**
+ * Check whether every character in [start, end) is covered by a mark of the given type
+ */
+export const isRangeMarked = (marks: InlineMark[], type: MarkType, start: number, end: number): boolean => {
+    if (start >= end) return false;
+
+    const ranges = normalizeMarks(marks.filter((mark) => mark.type === type));
+    let covered = start;
+    for (const range of ranges) {
+        if (range.start > covered) break;
+        covered = Math.max(covered, range.end);
+        if (covered >= end) return true;
+    }
+    return false;
+};
+
+/**
+ * Compute the marks to remove and add when toggling a mark over a range.
+ * A fully covered range is cleared (splitting marks that extend past it);
+ * otherwise the new mark is merged with touching marks of the same type.
+ * Links are never merged: overlapping links are replaced by the new target.
+ */
+export const toggleMarkRange = (marks: InlineMark[], mark: InlineMark): MarkChanges => {
+    const sameType = marks.filter((existing) => existing.type === mark.type);
+    const overlapping = sameType.filter((existing) => existing.start < mark.end && existing.end > mark.start);
+
+    const outsidePieces = (existing: InlineMark): InlineMark[] => [
+        ...(existing.start < mark.start ? [{ ...existing, end: mark.start }] : []),
+        ...(existing.end > mark.end ? [{ ...existing, start: mark.end }] : []),
+    ];
+
+    if (isRangeMarked(marks, mark.type, mark.start, mark.end)) {
+        return { removed: overlapping, added: overlapping.flatMap(outsidePieces) };
+    }
+
+    if (mark.type === 'link') {
+        return { removed: overlapping, added: [...overlapping.flatMap(outsidePieces), mark] };
+    }
+
+    const touching = sameType.filter((existing) => existing.start <= mark.end && existing.end >= mark.start);
+    const merged: InlineMark = {
+        ...mark,
+        start: Math.min(mark.start, ...touching.map((existing) => existing.start)),
+        end: Math.max(mark.end, ...touching.map((existing) => existing.end)),
+    };
+    return { removed: touching, added: [merged] };
+};
+
+/**
+ * Split content into segments where each segment carries the marks covering it.
+ * Extra boundaries split segments further, e.g. where search highlights start and end.
+ */
+export const getMarkedSegments = (content: string, marks: InlineMark[] = [], extraBoundaries: number[] = []): MarkedSegment[] => {
+    const boundaries = new Set<number>([0, content.length]);
+    for (const boundary of extraBoundaries) {
+        boundaries.add(Math.min(Math.max(boundary, 0), content.length));
+    }
+    for (const mark of marks) {
+        boundaries.add(Math.min(Math.max(mark.start, 0), content.length));
+        boundaries.add(Math.min(Math.max(mark.end, 0), content.length));
+    }
+    const points = [...boundaries].sort((a, b) => a - b);
+
+    const segments: MarkedSegment[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        const start = points[i];
+        const end = points[i + 1];
+        segments.push({
+            text: content.slice(start, end),
+            start,
+            end,
+            marks: marks.filter((mark) => mark.start <= start && mark.end >= end),
+        });
+    }
+    return segments;
+};
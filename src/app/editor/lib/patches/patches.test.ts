@@ -1,8 +1,8 @@
 import { describe, expect, it } from 'vitest';
-import { Block, BlockArray, Patch, PatchOp, Path } from '../types';
+import { Block, BlockArray, BlockType, Patch, PatchOp, Path } from '../types';
 import { applyPatch } from './patches';
 
-const createBlock = (id: string, type: 'text' | 'todo', content: string, options?: Partial<Block>): Block => ({
+const createBlock = (id: string, type: BlockType, content: string, options?: Partial<Block>): Block => ({
     id,
     type,
     content,
@@ -86,6 +86,50 @@ describe('patches ', () => {
         expect(result[0].done).toBe(true);
     });
 
+    it('should update heading level', () => {
+        const doc = createDoc(createBlock('1', 'heading', 'Title', { level: 1 }));
+        const patch = createPatch({ type: 'update', path: [0], field: 'level', value: 3, oldValue: 1 });
+
+        const result = applyPatch(doc, patch);
+
+        expect(result[0].level).toBe(3);
+    });
+
+    it('should update code language and preserve whitespace in content', () => {
+        const doc = createDoc(createBlock('1', 'code', '', { language: 'plaintext' }));
+        const patch = createPatch(
+            { type: 'update', path: [0], field: 'language', value: 'python', oldValue: 'plaintext' },
+            updateContentOp([0], 'def f():\n\treturn 1\n', ''),
+        );
+
+        const result = applyPatch(doc, patch);
+
+        expect(result[0].language).toBe('python');
+        expect(result[0].content).toBe('def f():\n\treturn 1\n');
+    });
+
+    it('should add and remove inline marks', () => {
+        const doc = createDoc(createBlock('1', 'text', 'Hello world'));
+        const mark = { type: 'bold', start: 0, end: 5 } as const;
+
+        const marked = applyPatch(doc, createPatch({ type: 'addMark', path: [0], mark }));
+        expect(marked[0].marks).toEqual([mark]);
+
+        const unmarked = applyPatch(marked, createPatch({ type: 'removeMark', path: [0], mark }));
+        expect(unmarked[0]).not.toHaveProperty('marks');
+    });
+
+    it('should set and remove block properties', () => {
+        const doc = createDoc(createBlock('1', 'text', 'Note'));
+        const value = { kind: 'string', value: 'Ada' } as const;
+
+        const withProperty = applyPatch(doc, createPatch({ type: 'setProperty', path: [0], key: 'assignee', value, oldValue: null }));
+        expect(withProperty[0].properties).toEqual({ assignee: value });
+
+        const withoutProperty = applyPatch(withProperty, createPatch({ type: 'removeProperty', path: [0], key: 'assignee', oldValue: value }));
+        expect(withoutProperty[0]).not.toHaveProperty('properties');
+    });
+
     it('should insert block at root level', () => {
         const doc = createDoc(createBlock('1', 'text', 'First'), createBlock('2', 'text', 'Third'));
         const newBlock = createBlock('3', 'text', 'Second');
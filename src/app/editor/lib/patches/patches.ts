@@ -1,4 +1,5 @@
 import { BlockArray, Patch, PatchOp } from '../types';
+import { marksEqual, normalizeMarks } from '../marks/marks';
 import { getBlockAtPath, getParentArray, pathEquals } from '../utils';
 
 const applyUpdateOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'update' }>) => {
@@ -8,10 +9,59 @@ const applyUpdateOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'update' }>
             block.content = op.value;
         } else if (op.field === 'done') {
             block.done = op.value;
+        } else if (op.field === 'level') {
+            block.level = op.value;
+        } else if (op.field === 'language') {
+            block.language = op.value;
+        } else if (op.field === 'type') {
+            // Replace type-specific fields so the block matches its new type
+            delete block.done;
+            delete block.level;
+            delete block.language;
+            delete block.pageId;
+            Object.assign(block, structuredClone(op.attributes));
+            block.type = op.value;
         }
     }
 };
 
+const applyAddMarkOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'addMark' }>) => {
+    const block = getBlockAtPath(doc, op.path);
+    if (block) {
+        block.marks = normalizeMarks([...(block.marks ?? []), structuredClone(op.mark)]);
+    }
+};
+
+const applyRemoveMarkOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'removeMark' }>) => {
+    const block = getBlockAtPath(doc, op.path);
+    if (!block?.marks) return;
+
+    const markIndex = block.marks.findIndex((mark) => marksEqual(mark, op.mark));
+    if (markIndex === -1) return;
+
+    block.marks.splice(markIndex, 1);
+    if (block.marks.length === 0) {
+        delete block.marks;
+    }
+};
+
+const applySetPropertyOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'setProperty' }>) => {
+    const block = getBlockAtPath(doc, op.path);
+    if (block) {
+        block.properties = { ...block.properties, [op.key]: structuredClone(op.value) };
+    }
+};
+
+const applyRemovePropertyOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'removeProperty' }>) => {
+    const block = getBlockAtPath(doc, op.path);
+    if (!block?.properties) return;
+
+    delete block.properties[op.key];
+    if (Object.keys(block.properties).length === 0) {
+        delete block.properties;
+    }
+};
+
 const applyInsertOp = (doc: BlockArray, op: Extract<PatchOp, { type: 'insert' }>) => {
     const parent = getParentArray(doc, op.parentPath);
     if (parent) {
@@ -52,6 +102,18 @@ export const applyPatch = (doc: BlockArray, patch: Patch): BlockArray => {
             case 'update':
                 applyUpdateOp(result, op);
                 break;
+            case 'addMark':
+                applyAddMarkOp(result, op);
+                break;
+            case 'removeMark':
+                applyRemoveMarkOp(result, op);
+                break;
+            case 'setProperty':
+                applySetPropertyOp(result, op);
+                break;
+            case 'removeProperty':
+                applyRemovePropertyOp(result, op);
+                break;
             case 'insert':
                 applyInsertOp(result, op);
                 break;
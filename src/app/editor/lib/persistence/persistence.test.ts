@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { Block, BlockArray, Command, CursorPosition, HistoryNode, Patch } from '../types';
-import { clearEditorState, loadEditorState, saveEditorState } from './persistence';
+import { Block, BlockArray, BlockType, Command, CursorPosition, HistoryNode, Patch } from '../types';
+import { clearEditorState, clearWorkspace, loadEditorState, loadKeymap, loadTrash, loadWorkspace, saveEditorState, saveWorkspace, serializeKeymap, serializeTrash } from './persistence';
 
 // Test helpers
-const createBlock = (id: string, type: 'text' | 'todo', content: string, options?: Partial<Block>): Block => ({
+const createBlock = (id: string, type: BlockType, content: string, options?: Partial<Block>): Block => ({
     id,
     type,
     content,
@@ -82,6 +82,27 @@ describe('persistence - round-trip tests', () => {
         expect(loaded!.doc[1].done).toBe(false);
     });
 
+    it('should save and load heading blocks', () => {
+        const doc = createDoc(createBlock('1', 'heading', 'Title', { level: 2 }));
+
+        saveEditorState(doc, [], -1, null);
+        const loaded = loadEditorState();
+
+        expect(loaded!.doc[0].type).toBe('heading');
+        expect(loaded!.doc[0].level).toBe(2);
+    });
+
+    it('should save and load code blocks with whitespace intact', () => {
+        const content = 'function f() {\n\treturn 1;\n}\n';
+        const doc = createDoc(createBlock('1', 'code', content, { language: 'javascript' }));
+
+        saveEditorState(doc, [], -1, null);
+        const loaded = loadEditorState();
+
+        expect(loaded!.doc[0].content).toBe(content);
+        expect(loaded!.doc[0].language).toBe('javascript');
+    });
+
     it('should save and load nested document', () => {
         const doc = createDoc(
             createBlock('1', 'text', 'Parent', {
@@ -226,6 +247,74 @@ describe('persistence - round-trip tests', () => {
         expect(localStorage.getItem('mini-notion-editor-state')).toBeNull();
     });
 
+    it('should keep documents separate when saved with a document id', () => {
+        saveEditorState(createDoc(createBlock('1', 'text', 'First doc')), [], -1, null, 'doc-a');
+        saveEditorState(createDoc(createBlock('2', 'text', 'Second doc')), [], -1, null, 'doc-b');
+
+        expect(loadEditorState('doc-a')!.doc[0].content).toBe('First doc');
+        expect(loadEditorState('doc-b')!.doc[0].content).toBe('Second doc');
+        expect(loadEditorState()).toBeNull();
+
+        clearEditorState('doc-a');
+
+        expect(loadEditorState('doc-a')).toBeNull();
+        expect(loadEditorState('doc-b')).not.toBeNull();
+    });
+
+    it('should round-trip the workspace document list', () => {
+        const documents = [
+            { id: 'doc-a', title: 'Notes', createdAt: 1 },
+            { id: 'doc-b', title: 'Tasks', createdAt: 2 },
+        ];
+
+        saveWorkspace(documents);
+
+        expect(loadWorkspace()).toEqual(documents);
+    });
+
+    it('should clear every document when clearing the workspace', () => {
+        saveWorkspace([{ id: 'doc-a', title: 'Notes', createdAt: 1 }]);
+        saveEditorState(createDoc(createBlock('1', 'text', 'Test')), [], -1, null, 'doc-a');
+
+        clearWorkspace();
+
+        expect(loadWorkspace()).toBeNull();
+        expect(loadEditorState('doc-a')).toBeNull();
+    });
+
+    it('should round-trip trash entries without transient flags', () => {
+        const block = createBlock('1', 'todo', 'Deleted', { done: false, autoFocus: true, children: [createBlock('2', 'text', 'Nested')] });
+
+        localStorage.setItem('mini-notion-trash', JSON.stringify(serializeTrash([{ id: 'entry-1', docId: 'doc-a', block, parentId: null, index: 3, deletedAt: 1000 }])));
+        const loaded = loadTrash();
+
+        expect(loaded).toHaveLength(1);
+        expect(loaded[0].index).toBe(3);
+        expect(loaded[0].block.children![0].content).toBe('Nested');
+        expect(loaded[0].block).not.toHaveProperty('autoFocus');
+    });
+
+    it('should keep the trash when clearing the workspace', () => {
+        saveWorkspace([{ id: 'doc-a', title: 'Notes', createdAt: 1 }]);
+        localStorage.setItem('mini-notion-trash', JSON.stringify(serializeTrash([{ id: 'entry-1', docId: 'doc-a', block: createBlock('1', 'text', 'Deleted'), parentId: null, index: 0, deletedAt: 1000 }])));
+
+        clearWorkspace();
+
+        expect(loadTrash()).toHaveLength(1);
+    });
+
+    it('should round-trip keymap overrides, including unbound actions', () => {
+        localStorage.setItem('mini-notion-keymap', JSON.stringify(serializeKeymap({ 'history.undo': ['Mod+U'], 'help.toggle': [] })));
+
+        expect(loadKeymap()).toEqual({ 'history.undo': ['Mod+U'], 'help.toggle': [] });
+    });
+
+    it('should ignore invalid keymap overrides', () => {
+        localStorage.setItem('mini-notion-keymap', JSON.stringify({ overrides: { 'history.undo': 'Mod+U' }, version: 1 }));
+
+        expect(loadKeymap()).toEqual({});
+    });
+
     it('should preserve complete editor state through multiple operations', () => {
         const doc1 = createDoc(createBlock('1', 'text', 'Initial'));
         saveEditorState(doc1, [], -1, null);
@@ -249,6 +338,16 @@ describe('persistence - round-trip tests', () => {
         expect(loaded.cursor!.selectionStart).toBe(8);
     });
 
+    it('should keep the labels of history nodes', () => {
+        const command = createCommand(
+            [{ type: 'update', path: [0], field: 'content', value: 'Modified', oldValue: 'Initial' }],
+            [{ type: 'update', path: [0], field: 'content', value: 'Initial', oldValue: 'Modified' }],
+        );
+        saveEditorState(createDoc(createBlock('1', 'text', 'Modified')), [createHistoryNode({ ...command, label: 'Rename heading' }, null)], 0, null);
+
+        expect(loadEditorState()!.historyNodes[0].command.label).toBe('Rename heading');
+    });
+
     it('should handle large documents', () => {
         const doc = Array.from({ length: 100 }, (_, i) =>
             createBlock(`block-${i}`, i % 2 === 0 ? 'text' : 'todo', `Block ${i}`, i % 2 === 1 ? { done: i % 4 === 1 } : {}),
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { STORAGE_CONFIG } from '../config';
-import { BlockArray, BlockArraySchema, CursorPosition, CursorPositionSchema, HistoryNode, HistoryNodesSchema } from '../types';
+import { BlockArray, BlockArraySchema, CursorPosition, CursorPositionSchema, DocumentMeta, DocumentMetasSchema, HistoryNode, HistoryNodesSchema, KeymapOverrides, KeymapOverridesSchema, TrashEntriesSchema, TrashEntry } from '../types';
 import { stripTransientFlags, stripTransientFlagsFromBlocks } from '../utils';
 
 const PersistedStateSchema = z.object({
@@ -13,13 +13,43 @@ const PersistedStateSchema = z.object({
 
 export type PersistedState = z.infer<typeof PersistedStateSchema>;
 
+const PersistedWorkspaceSchema = z.object({
+    documents: DocumentMetasSchema,
+    version: z.number().int().positive(),
+});
+
+export type PersistedWorkspace = z.infer<typeof PersistedWorkspaceSchema>;
+
+const PersistedTrashSchema = z.object({
+    entries: TrashEntriesSchema,
+    version: z.number().int().positive(),
+});
+
+export type PersistedTrash = z.infer<typeof PersistedTrashSchema>;
+
+const PersistedKeymapSchema = z.object({
+    overrides: KeymapOverridesSchema,
+    version: z.number().int().positive(),
+});
+
+export type PersistedKeymap = z.infer<typeof PersistedKeymapSchema>;
+
 /**
- * Strip transient flags from history nodes
+ * Get the localStorage key for a document's editor state.
+ * Without a document id this is the single-document key used before workspaces existed.
+ */
+export const getEditorStateKey = (docId?: string): string => {
+    return docId ? `${STORAGE_CONFIG.EDITOR_STATE_KEY}:${docId}` : STORAGE_CONFIG.EDITOR_STATE_KEY;
+};
+
+/**
+ * Strip transient flags from history nodes, keeping the rest of each command (e.g. its label)
  */
 const stripTransientFlagsFromHistory = (nodes: HistoryNode[]): HistoryNode[] => {
     return nodes.map((node) => ({
         ...node,
         command: {
+            ...node.command,
             forward: {
                 ops: node.command.forward.ops.map((op) => {
                     if (op.type === 'insert') {
@@ -43,18 +73,25 @@ const stripTransientFlagsFromHistory = (nodes: HistoryNode[]): HistoryNode[] =>
     }));
 };
 
+/**
+ * Build the persisted form of editor state (transient flags stripped, version stamped)
+ */
+export const serializeEditorState = (doc: BlockArray, historyNodes: HistoryNode[], currentIndex: number, cursor: CursorPosition): PersistedState => {
+    return {
+        doc: stripTransientFlagsFromBlocks(doc),
+        historyNodes: stripTransientFlagsFromHistory(historyNodes),
+        currentIndex,
+        cursor,
+        version: STORAGE_CONFIG.STORAGE_VERSION,
+    };
+};
+
 /**
  * Save editor state to localStorage with validation
  */
-export const saveEditorState = (doc: BlockArray, historyNodes: HistoryNode[], currentIndex: number, cursor: CursorPosition): void => {
+export const saveEditorState = (doc: BlockArray, historyNodes: HistoryNode[], currentIndex: number, cursor: CursorPosition, docId?: string): void => {
     try {
-        const state: PersistedState = {
-            doc: stripTransientFlagsFromBlocks(doc),
-            historyNodes: stripTransientFlagsFromHistory(historyNodes),
-            currentIndex,
-            cursor,
-            version: STORAGE_CONFIG.STORAGE_VERSION,
-        };
+        const state = serializeEditorState(doc, historyNodes, currentIndex, cursor);
 
         // Validate before saving
         const validationResult = PersistedStateSchema.safeParse(state);
@@ -63,7 +100,7 @@ export const saveEditorState = (doc: BlockArray, historyNodes: HistoryNode[], cu
             return;
         }
 
-        localStorage.setItem(STORAGE_CONFIG.EDITOR_STATE_KEY, JSON.stringify(state));
+        localStorage.setItem(getEditorStateKey(docId), JSON.stringify(state));
     } catch (error) {
         console.error('Failed to save editor state:', error);
     }
@@ -72,9 +109,9 @@ export const saveEditorState = (doc: BlockArray, historyNodes: HistoryNode[], cu
 /**
  * Load editor state from localStorage with validation
  */
-export const loadEditorState = (): PersistedState | null => {
+export const loadEditorState = (docId?: string): PersistedState | null => {
     try {
-        const stored = localStorage.getItem(STORAGE_CONFIG.EDITOR_STATE_KEY);
+        const stored = localStorage.getItem(getEditorStateKey(docId));
         if (!stored) {
             return null;
         }
@@ -85,7 +122,7 @@ export const loadEditorState = (): PersistedState | null => {
         if (!validationResult.success) {
             console.error('  Persisted state failed validation:', validationResult.error.issues);
             console.warn(' Clearing invalid persisted state');
-            clearEditorState();
+            clearEditorState(docId);
             return null;
         }
 
@@ -100,7 +137,7 @@ export const loadEditorState = (): PersistedState | null => {
         return state;
     } catch (error) {
         console.error('Failed to load editor state:', error);
-        clearEditorState();
+        clearEditorState(docId);
         return null;
     }
 };
@@ -108,10 +145,145 @@ export const loadEditorState = (): PersistedState | null => {
 /**
  * Clear persisted state
  */
-export const clearEditorState = (): void => {
+export const clearEditorState = (docId?: string): void => {
     try {
-        localStorage.removeItem(STORAGE_CONFIG.EDITOR_STATE_KEY);
+        localStorage.removeItem(getEditorStateKey(docId));
     } catch (error) {
         console.error('Failed to clear editor state:', error);
     }
 };
+
+/**
+ * Save the workspace document list to localStorage with validation
+ */
+export const saveWorkspace = (documents: DocumentMeta[]): void => {
+    try {
+        const workspace: PersistedWorkspace = { documents, version: STORAGE_CONFIG.STORAGE_VERSION };
+
+        const validationResult = PersistedWorkspaceSchema.safeParse(workspace);
+        if (!validationResult.success) {
+            console.error('  Failed to validate workspace before saving:', validationResult.error.issues);
+            return;
+        }
+
+        localStorage.setItem(STORAGE_CONFIG.WORKSPACE_KEY, JSON.stringify(workspace));
+    } catch (error) {
+        console.error('Failed to save workspace:', error);
+    }
+};
+
+/**
+ * Load the workspace document list from localStorage with validation
+ */
+export const loadWorkspace = (): DocumentMeta[] | null => {
+    try {
+        const stored = localStorage.getItem(STORAGE_CONFIG.WORKSPACE_KEY);
+        if (!stored) {
+            return null;
+        }
+
+        const validationResult = PersistedWorkspaceSchema.safeParse(JSON.parse(stored));
+        if (!validationResult.success) {
+            console.error('  Persisted workspace failed validation:', validationResult.error.issues);
+            return null;
+        }
+
+        if (validationResult.data.version !== STORAGE_CONFIG.STORAGE_VERSION) {
+            console.warn('  Persisted workspace version mismatch, ignoring');
+            return null;
+        }
+
+        return validationResult.data.documents;
+    } catch (error) {
+        console.error('Failed to load workspace:', error);
+        return null;
+    }
+};
+
+/**
+ * Build the persisted form of the trash (transient flags stripped, version stamped)
+ */
+export const serializeTrash = (entries: TrashEntry[]): PersistedTrash => {
+    return {
+        entries: entries.map((entry) => ({ ...entry, block: stripTransientFlags(entry.block) })),
+        version: STORAGE_CONFIG.STORAGE_VERSION,
+    };
+};
+
+/**
+ * Load the trash from localStorage with validation
+ */
+export const loadTrash = (): TrashEntry[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_CONFIG.TRASH_KEY);
+        if (!stored) {
+            return [];
+        }
+
+        const validationResult = PersistedTrashSchema.safeParse(JSON.parse(stored));
+        if (!validationResult.success) {
+            console.error('  Persisted trash failed validation:', validationResult.error.issues);
+            return [];
+        }
+
+        if (validationResult.data.version !== STORAGE_CONFIG.STORAGE_VERSION) {
+            console.warn('  Persisted trash version mismatch, ignoring');
+            return [];
+        }
+
+        return validationResult.data.entries;
+    } catch (error) {
+        console.error('Failed to load trash:', error);
+        return [];
+    }
+};
+
+/**
+ * Build the persisted form of the user's keymap overrides (version stamped)
+ */
+export const serializeKeymap = (overrides: KeymapOverrides): PersistedKeymap => {
+    return { overrides, version: STORAGE_CONFIG.STORAGE_VERSION };
+};
+
+/**
+ * Load the user's keymap overrides from localStorage with validation
+ */
+export const loadKeymap = (): KeymapOverrides => {
+    try {
+        const stored = localStorage.getItem(STORAGE_CONFIG.KEYMAP_KEY);
+        if (!stored) {
+            return {};
+        }
+
+        const validationResult = PersistedKeymapSchema.safeParse(JSON.parse(stored));
+        if (!validationResult.success) {
+            console.error('  Persisted keymap failed validation:', validationResult.error.issues);
+            return {};
+        }
+
+        if (validationResult.data.version !== STORAGE_CONFIG.STORAGE_VERSION) {
+            console.warn('  Persisted keymap version mismatch, ignoring');
+            return {};
+        }
+
+        return validationResult.data.overrides;
+    } catch (error) {
+        console.error('Failed to load keymap:', error);
+        return {};
+    }
+};
+
+/**
+ * Clear the workspace list and the editor state of every document in it.
+ * The trash and the keymap are stored separately and are left intact.
+ */
+export const clearWorkspace = (): void => {
+    const documents = loadWorkspace() ?? [];
+    documents.forEach((document) => clearEditorState(document.id));
+    clearEditorState();
+    try {
+        localStorage.removeItem(STORAGE_CONFIG.WORKSPACE_KEY);
+    } catch (error) {
+        console.error('Failed to clear workspace:', error);
+    }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { EditorCommand, EditorCommandContext } from '../types';
+import { filterSlashCommands, findCommandForShortcut, formatShortcut, getAvailableCommands, matchesShortcut, parseShortcut, registerCommands, unregisterCommands } from './registry';
+
+const createCommand = (id: string, options?: Partial<EditorCommand>): EditorCommand => ({
+    id,
+    label: id,
+    factory: () => null,
+    ...options,
+});
+
+const createEvent = (key: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    ...modifiers,
+});
+
+const context: EditorCommandContext = { doc: [], path: null, block: null, selectedPaths: [] };
+
+describe('registry', () => {
+    it('should register commands in order, replacing those with the same ID', () => {
+        const registry = registerCommands([createCommand('a'), createCommand('b')], [createCommand('a', { label: 'Override' }), createCommand('c')]);
+
+        expect(registry.map((command) => [command.id, command.label])).toEqual([
+            ['b', 'b'],
+            ['a', 'Override'],
+            ['c', 'c'],
+        ]);
+        expect(unregisterCommands(registry, ['a', 'c']).map((command) => command.id)).toEqual(['b']);
+    });
+
+    it('should only list commands whose predicate accepts the context', () => {
+        const registry = [createCommand('always'), createCommand('withBlock', { when: ({ block }) => block !== null })];
+
+        expect(getAvailableCommands(registry, context).map((command) => command.id)).toEqual(['always']);
+    });
+
+    it('should filter slash commands by label or keyword prefix', () => {
+        const registry = [
+            createCommand('todo', { label: 'Todo', keywords: ['task'], slash: true }),
+            createCommand('text', { label: 'Text', slash: true }),
+            createCommand('duplicate', { label: 'Tidy' }),
+        ];
+
+        expect(filterSlashCommands(registry, 't').map((command) => command.id)).toEqual(['todo', 'text']);
+        expect(filterSlashCommands(registry, 'TASK').map((command) => command.id)).toEqual(['todo']);
+        expect(filterSlashCommands(registry, 'x')).toEqual([]);
+    });
+
+    describe('shortcuts', () => {
+        it('should parse keys and modifiers', () => {
+            expect(parseShortcut('Mod+Shift+ArrowUp')).toEqual({ key: 'ArrowUp', mod: true, shift: true, alt: false });
+            expect(parseShortcut('alt+x')).toEqual({ key: 'x', mod: false, shift: false, alt: true });
+        });
+
+        it('should match Ctrl or Cmd as Mod and require the exact modifiers', () => {
+            expect(matchesShortcut(createEvent('d', { ctrlKey: true }), 'Mod+D')).toBe(true);
+            expect(matchesShortcut(createEvent('D', { metaKey: true, shiftKey: true }), 'Mod+Shift+D')).toBe(true);
+            expect(matchesShortcut(createEvent('d', { ctrlKey: true, shiftKey: true }), 'Mod+D')).toBe(false);
+            expect(matchesShortcut(createEvent('d'), 'Mod+D')).toBe(false);
+        });
+
+        it('should format shortcuts for menus', () => {
+            expect(formatShortcut('Mod+D')).toBe('Ctrl+D');
+            expect(formatShortcut('Mod+Shift+ArrowDown')).toBe('Ctrl+Shift+↓');
+        });
+
+        it('should find the first available command for a shortcut', () => {
+            const registry = [
+                createCommand('unavailable', { shortcut: 'Mod+K', when: () => false }),
+                createCommand('palette', { shortcut: 'Mod+K' }),
+                createCommand('other', { shortcut: 'Mod+J' }),
+            ];
+
+            expect(findCommandForShortcut(registry, createEvent('k', { ctrlKey: true }), context)?.id).toBe('palette');
+            expect(findCommandForShortcut(registry, createEvent('k'), context)).toBeUndefined();
+        });
+    });
+});
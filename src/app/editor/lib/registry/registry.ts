@@ -0,0 +1,104 @@
+import { EditorCommand, EditorCommandContext } from '../types';
+
+/**
+ * A keyboard shortcut split into its key and modifiers
+ */
+export type ParsedShortcut = {
+    key: string;
+    mod: boolean;
+    shift: boolean;
+    alt: boolean;
+};
+
+type ShortcutEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>;
+
+const KEY_SYMBOLS: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+};
+
+/**
+ * Add commands to a registry. A command with the ID of a registered one replaces it, so plugins can override built-ins.
+ */
+export const registerCommands = (registry: EditorCommand[], commands: EditorCommand[]): EditorCommand[] => {
+    const ids = new Set(commands.map((command) => command.id));
+    return [...registry.filter((command) => !ids.has(command.id)), ...commands];
+};
+
+/**
+ * Remove commands from a registry by ID
+ */
+export const unregisterCommands = (registry: EditorCommand[], ids: string[]): EditorCommand[] => {
+    return registry.filter((command) => !ids.includes(command.id));
+};
+
+/**
+ * Check whether a command applies in a context
+ */
+export const isCommandAvailable = (command: EditorCommand, context: EditorCommandContext): boolean => {
+    return command.when?.(context) ?? true;
+};
+
+/**
+ * Get the commands that apply in a context, in registration order
+ */
+export const getAvailableCommands = (registry: EditorCommand[], context: EditorCommandContext): EditorCommand[] => {
+    return registry.filter((command) => isCommandAvailable(command, context));
+};
+
+/**
+ * Get the slash menu commands whose label or a keyword starts with the query (case-insensitive), in registration order
+ */
+export const filterSlashCommands = (registry: EditorCommand[], query: string): EditorCommand[] => {
+    const normalized = query.trim().toLowerCase();
+    return registry.filter((command) => command.slash && [command.label, ...(command.keywords ?? [])].some((text) => text.toLowerCase().startsWith(normalized)));
+};
+
+/**
+ * Split a shortcut such as `Mod+Shift+D` into its key and modifiers; modifier names are case-insensitive
+ */
+export const parseShortcut = (shortcut: string): ParsedShortcut => {
+    const parts = shortcut.split('+');
+    const key = parts.pop() ?? '';
+    const modifiers = new Set(parts.map((part) => part.toLowerCase()));
+
+    return {
+        key,
+        mod: modifiers.has('mod') || modifiers.has('ctrl') || modifiers.has('cmd'),
+        shift: modifiers.has('shift'),
+        alt: modifiers.has('alt'),
+    };
+};
+
+/**
+ * Check whether a keyboard event matches a shortcut. Ctrl and Cmd both count as `Mod`, and letters match in either case.
+ */
+export const matchesShortcut = (event: ShortcutEvent, shortcut: string): boolean => {
+    const { key, mod, shift, alt } = parseShortcut(shortcut);
+
+    return (
+        event.key.toLowerCase() === key.toLowerCase() &&
+        (event.ctrlKey || event.metaKey) === mod &&
+        event.shiftKey === shift &&
+        event.altKey === alt
+    );
+};
+
+/**
+ * Format a shortcut for display in menus, e.g. `Mod+Shift+ArrowUp` as `Ctrl+Shift+↑`
+ */
+export const formatShortcut = (shortcut: string): string => {
+    const { key, mod, shift, alt } = parseShortcut(shortcut);
+    const label = KEY_SYMBOLS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+    return [mod && 'Ctrl', alt && 'Alt', shift && 'Shift', label].filter(Boolean).join('+');
+};
+
+/**
+ * Find the command whose shortcut a keyboard event matches and that applies in the context
+ */
+export const findCommandForShortcut = (registry: EditorCommand[], event: ShortcutEvent, context: EditorCommandContext): EditorCommand | undefined => {
+    return registry.find((command) => command.shortcut && matchesShortcut(event, command.shortcut) && isCommandAvailable(command, context));
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Block, BlockArray, BlockType, SearchOptions } from '../types';
+import { buildSearchPattern, findMatches, getReplacementText } from './search';
+
+const createBlock = (id: string, type: BlockType, content: string, options?: Partial<Block>): Block => ({
+    id,
+    type,
+    content,
+    ...options,
+});
+
+const defaults: SearchOptions = { caseSensitive: false, regex: false, wholeWord: false };
+
+describe('search', () => {
+    const doc: BlockArray = [
+        createBlock('1', 'text', 'Cat and cat', {
+            children: [createBlock('2', 'todo', 'Feed the category of cats', { done: false })],
+        }),
+        createBlock('3', 'code', 'const cat = 1.5;', { language: 'typescript' }),
+    ];
+
+    describe('buildSearchPattern', () => {
+        it('should return null for an empty query or an invalid regular expression', () => {
+            expect(buildSearchPattern('', defaults)).toBeNull();
+            expect(buildSearchPattern('(', { ...defaults, regex: true })).toBeNull();
+        });
+
+        it('should escape special characters unless searching by regular expression', () => {
+            expect(buildSearchPattern('1.5', defaults)!.test('115')).toBe(false);
+            expect(buildSearchPattern('1.5', { ...defaults, regex: true })!.test('115')).toBe(true);
+        });
+    });
+
+    describe('findMatches', () => {
+        it('should find matches in every block of the tree in document order', () => {
+            const matches = findMatches(doc, 'cat', defaults);
+
+            expect(matches.map((match) => [match.blockId, match.start, match.end])).toEqual([
+                ['1', 0, 3],
+                ['1', 8, 11],
+                ['2', 9, 12],
+                ['2', 21, 24],
+                ['3', 6, 9],
+            ]);
+            expect(matches[2].path).toEqual([0, 0]);
+        });
+
+        it('should respect case sensitivity and whole words', () => {
+            expect(findMatches(doc, 'Cat', { ...defaults, caseSensitive: true })).toHaveLength(1);
+            expect(findMatches(doc, 'cat', { ...defaults, wholeWord: true }).map((match) => match.blockId)).toEqual(['1', '1', '3']);
+        });
+
+        it('should support regular expressions and skip empty matches', () => {
+            expect(findMatches(doc, String.raw`cat\w+`, { ...defaults, regex: true }).map((match) => match.end - match.start)).toEqual([8, 4]);
+            expect(findMatches(doc, 'x*', { ...defaults, regex: true })).toEqual([]);
+        });
+    });
+
+    describe('getReplacementText', () => {
+        it('should use the replacement literally outside regular expression mode', () => {
+            const [match] = findMatches(doc, 'cat', defaults);
+            expect(getReplacementText(doc[0].content, match, 'cat', defaults, '$& dog')).toBe('$& dog');
+        });
+
+        it('should expand capture groups in regular expression mode', () => {
+            const options = { ...defaults, regex: true };
+            const matches = findMatches(doc, String.raw`(\w+) of (\w+)`, options);
+            expect(getReplacementText(doc[0].children![0].content, matches[0], String.raw`(\w+) of (\w+)`, options, '$2 $1')).toBe('cats category');
+        });
+    });
+});
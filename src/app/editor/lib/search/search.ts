@@ -0,0 +1,54 @@
+import { BlockArray, SearchMatch, SearchOptions } from '../types';
+import { flattenBlocks } from '../utils';
+
+/**
+ * Escape text so it matches literally inside a regular expression
+ */
+const escapeRegExp = (text: string): string => text.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+
+/**
+ * Build the global regular expression for a search.
+ * Returns null for an empty query or an invalid regular expression.
+ */
+export const buildSearchPattern = (query: string, options: SearchOptions): RegExp | null => {
+    if (!query) return null;
+
+    const source = options.regex ? query : escapeRegExp(query);
+    const bounded = options.wholeWord ? String.raw`\b(?:${source})\b` : source;
+
+    try {
+        return new RegExp(bounded, options.caseSensitive ? 'g' : 'gi');
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Find every match of a search in every block of the tree, in document order.
+ * Empty matches (e.g. from `a*`) are skipped.
+ */
+export const findMatches = (doc: BlockArray, query: string, options: SearchOptions): SearchMatch[] => {
+    const pattern = buildSearchPattern(query, options);
+    if (!pattern) return [];
+
+    return flattenBlocks(doc).flatMap(({ block, path }) =>
+        [...block.content.matchAll(pattern)]
+            .filter((match) => match[0].length > 0)
+            .map((match) => ({ blockId: block.id, path, start: match.index, end: match.index + match[0].length })),
+    );
+};
+
+/**
+ * Get the text that replaces a match. With regular expressions, `$1`, `$&` and the like refer to the match;
+ * otherwise the replacement is used literally.
+ */
+export const getReplacementText = (content: string, match: SearchMatch, query: string, options: SearchOptions, replacement: string): string => {
+    const pattern = buildSearchPattern(query, options);
+    if (!pattern || !options.regex) return replacement;
+
+    // A sticky pattern replaces only the match starting at lastIndex
+    const sticky = new RegExp(pattern.source, pattern.flags.replace('g', 'y'));
+    sticky.lastIndex = match.start;
+    const replaced = content.replace(sticky, replacement);
+    return replaced.slice(match.start, replaced.length - (content.length - match.end));
+};
@@ -1,7 +1,44 @@
+import type { ComponentType } from 'react';
 import { z } from 'zod';
 
 // Zod schemas
-export const BlockTypeSchema = z.enum(['text', 'todo']);
+export const BlockTypeSchema = z.enum(['text', 'todo', 'heading', 'code', 'page']);
+
+export const HeadingLevelSchema = z.union([z.literal(1), z.literal(2), z.literal(3)]);
+
+export const MarkTypeSchema = z.enum(['bold', 'italic', 'code', 'link']);
+
+export const InlineMarkSchema = z.union([
+    z.object({
+        type: z.enum(['bold', 'italic', 'code']),
+        start: z.number().int().min(0),
+        end: z.number().int().min(0),
+    }),
+    z.object({
+        type: z.literal('link'),
+        start: z.number().int().min(0),
+        end: z.number().int().min(0),
+        href: z.string().min(1),
+    }),
+]);
+
+export const PropertyKindSchema = z.enum(['string', 'date', 'enum', 'list']);
+
+export const PropertyValueSchema = z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('string'), value: z.string() }),
+    z.object({ kind: z.literal('date'), value: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be formatted as YYYY-MM-DD') }),
+    z.object({ kind: z.literal('enum'), value: z.string().min(1), options: z.array(z.string().min(1)).min(1) }),
+    z.object({ kind: z.literal('list'), value: z.array(z.string().min(1)) }),
+]);
+
+export const BlockPropertiesSchema = z.record(z.string().min(1), PropertyValueSchema);
+
+export const BlockTypeAttributesSchema = z.object({
+    done: z.boolean().optional(),
+    level: HeadingLevelSchema.optional(),
+    language: z.string().min(1).optional(),
+    pageId: z.string().min(1).optional(),
+});
 
 export const BaseBlockSchema: z.ZodType<BaseBlock> = z.lazy(() =>
     z.object({
@@ -9,6 +46,11 @@ export const BaseBlockSchema: z.ZodType<BaseBlock> = z.lazy(() =>
         type: BlockTypeSchema,
         content: z.string(),
         done: z.boolean().optional(),
+        level: HeadingLevelSchema.optional(),
+        language: z.string().min(1).optional(),
+        pageId: z.string().min(1).optional(),
+        marks: z.array(InlineMarkSchema).optional(),
+        properties: BlockPropertiesSchema.optional(),
         children: z.array(BlockSchema).optional(),
     }),
 );
@@ -19,6 +61,11 @@ export const BlockSchema: z.ZodType<Block> = z.lazy(() =>
         type: BlockTypeSchema,
         content: z.string(),
         done: z.boolean().optional(),
+        level: HeadingLevelSchema.optional(),
+        language: z.string().min(1).optional(),
+        pageId: z.string().min(1).optional(),
+        marks: z.array(InlineMarkSchema).optional(),
+        properties: BlockPropertiesSchema.optional(),
         children: z.array(BlockSchema).optional(),
         autoFocus: z.boolean().optional(),
     }),
@@ -52,6 +99,59 @@ export const PatchOpUpdateDoneSchema = z.object({
     oldValue: z.boolean(),
 });
 
+export const PatchOpUpdateLevelSchema = z.object({
+    type: z.literal('update'),
+    path: PathSchema,
+    field: z.literal('level'),
+    value: HeadingLevelSchema,
+    oldValue: HeadingLevelSchema,
+});
+
+export const PatchOpUpdateLanguageSchema = z.object({
+    type: z.literal('update'),
+    path: PathSchema,
+    field: z.literal('language'),
+    value: z.string().min(1),
+    oldValue: z.string().min(1),
+});
+
+export const PatchOpUpdateTypeSchema = z.object({
+    type: z.literal('update'),
+    path: PathSchema,
+    field: z.literal('type'),
+    value: BlockTypeSchema,
+    oldValue: BlockTypeSchema,
+    attributes: BlockTypeAttributesSchema,
+    oldAttributes: BlockTypeAttributesSchema,
+});
+
+export const PatchOpAddMarkSchema = z.object({
+    type: z.literal('addMark'),
+    path: PathSchema,
+    mark: InlineMarkSchema,
+});
+
+export const PatchOpRemoveMarkSchema = z.object({
+    type: z.literal('removeMark'),
+    path: PathSchema,
+    mark: InlineMarkSchema,
+});
+
+export const PatchOpSetPropertySchema = z.object({
+    type: z.literal('setProperty'),
+    path: PathSchema,
+    key: z.string().min(1),
+    value: PropertyValueSchema,
+    oldValue: PropertyValueSchema.nullable(),
+});
+
+export const PatchOpRemovePropertySchema = z.object({
+    type: z.literal('removeProperty'),
+    path: PathSchema,
+    key: z.string().min(1),
+    oldValue: PropertyValueSchema,
+});
+
 export const PatchOpInsertSchema = z.object({
     type: z.literal('insert'),
     parentPath: PathSchema.nullable(),
@@ -77,6 +177,13 @@ export const PatchOpMoveSchema = z.object({
 export const PatchOpSchema = z.union([
     PatchOpUpdateContentSchema,
     PatchOpUpdateDoneSchema,
+    PatchOpUpdateLevelSchema,
+    PatchOpUpdateLanguageSchema,
+    PatchOpUpdateTypeSchema,
+    PatchOpAddMarkSchema,
+    PatchOpRemoveMarkSchema,
+    PatchOpSetPropertySchema,
+    PatchOpRemovePropertySchema,
     PatchOpInsertSchema,
     PatchOpDeleteSchema,
     PatchOpMoveSchema,
@@ -89,6 +196,7 @@ export const PatchSchema = z.object({
 export const CommandSchema = z.object({
     forward: PatchSchema,
     inverse: PatchSchema,
+    label: z.string().optional(),
 });
 
 export const HistoryNodeSchema = z.object({
@@ -104,13 +212,94 @@ export const HistoryTreeSchema = z.object({
     nodes: HistoryNodesSchema,
     currentIndex: z.number().int(),
 });
-export type BlockType = 'text' | 'todo';
+
+export const DocumentMetaSchema = z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    createdAt: z.number().int().positive(),
+    parentId: z.string().min(1).optional(),
+});
+
+export const DocumentMetasSchema = z.array(DocumentMetaSchema);
+
+export const TrashEntrySchema = z.object({
+    id: z.string().min(1),
+    docId: z.string().min(1),
+    block: BlockSchema,
+    parentId: z.string().min(1).nullable(),
+    index: z.number().int().min(0),
+    deletedAt: z.number().int().positive(),
+});
+
+export const TrashEntriesSchema = z.array(TrashEntrySchema);
+
+export const KeymapOverridesSchema = z.record(z.string().min(1), z.array(z.string().min(1)));
+
+export type BlockType = 'text' | 'todo' | 'heading' | 'code' | 'page';
+
+export type HeadingLevel = 1 | 2 | 3;
+
+export type MarkType = 'bold' | 'italic' | 'code' | 'link';
+
+/**
+ * Inline formatting applied to the content range [start, end)
+ */
+export type InlineMark =
+    | {
+          type: 'bold' | 'italic' | 'code';
+          start: number;
+          end: number;
+      }
+    | {
+          type: 'link';
+          start: number;
+          end: number;
+          href: string;
+      };
+
+export type PropertyKind = 'string' | 'date' | 'enum' | 'list';
+
+/**
+ * A typed block property value; dates are stored as YYYY-MM-DD strings
+ */
+export type PropertyValue =
+    | { kind: 'string'; value: string }
+    | { kind: 'date'; value: string }
+    | { kind: 'enum'; value: string; options: string[] }
+    | { kind: 'list'; value: string[] };
+
+export type BlockProperties = Record<string, PropertyValue>;
+
+/**
+ * Declaration of a well-known property offered by the property editor
+ */
+export type PropertyDefinition = {
+    label: string;
+    kind: PropertyKind;
+    options?: string[];
+};
+
+/**
+ * Type-specific fields of a block (todo `done`, heading `level`, code `language`, page `pageId`)
+ */
+export type BlockTypeAttributes = {
+    done?: boolean;
+    level?: HeadingLevel;
+    language?: string;
+    pageId?: string;
+};
 
 export type BaseBlock = {
     id: string;
     type: BlockType;
     content: string;
     done?: boolean;
+    level?: HeadingLevel;
+    language?: string;
+    /** Workspace document holding a page block's content */
+    pageId?: string;
+    marks?: InlineMark[];
+    properties?: BlockProperties;
     children?: Block[];
 };
 
@@ -120,6 +309,16 @@ export type Block = BaseBlock & {
 
 export type BlockArray = Block[];
 
+/**
+ * Orderings available when sorting a block's children
+ */
+export type ChildSortOrder = 'alphabetical' | 'doneFirst' | 'doneLast' | 'dueDate';
+
+/**
+ * Due date state of a todo relative to today
+ */
+export type DueDateStatus = 'overdue' | 'today' | 'upcoming';
+
 export type HistoryNode = {
     command: Command;
     parentIndex: number | null;
@@ -134,6 +333,99 @@ export type HistoryTree = {
 
 export type Path = number[];
 
+/**
+ * A block together with its path, as produced by flattening the tree in document order
+ */
+export type FlatBlock = {
+    block: Block;
+    path: Path;
+};
+
+/**
+ * How a click changes the block selection: replace it, toggle one block, or extend a range from the anchor
+ */
+export type SelectionMode = 'replace' | 'toggle' | 'extend';
+
+/**
+ * Selected blocks by ID. The anchor is where range selection starts and the focus is where it currently ends.
+ */
+export type BlockSelection = {
+    blockIds: string[];
+    anchorId: string | null;
+    focusId: string | null;
+};
+
+/**
+ * Direction for moving blocks among their siblings
+ */
+export type MoveDirection = 'up' | 'down';
+
+/**
+ * Where keyboard navigation moves the block focus, in document order
+ */
+export type FocusTarget = 'previous' | 'next' | 'first' | 'last';
+
+/**
+ * Options for find and replace
+ */
+export type SearchOptions = {
+    caseSensitive: boolean;
+    regex: boolean;
+    wholeWord: boolean;
+};
+
+/**
+ * An active search: the query and how to match it
+ */
+export type SearchState = {
+    query: string;
+    options: SearchOptions;
+};
+
+/**
+ * A range of a block's content matched by a search
+ */
+export type SearchMatch = {
+    blockId: string;
+    path: Path;
+    start: number;
+    end: number;
+};
+
+/**
+ * Text to put in place of a range of a block's content
+ */
+export type TextReplacement = {
+    path: Path;
+    start: number;
+    end: number;
+    text: string;
+};
+
+/**
+ * A deleted block subtree kept in the workspace trash, independent of any document's history.
+ * The location is recorded by parent block id (null for the root) since paths shift after later edits.
+ */
+export type TrashEntry = {
+    id: string;
+    docId: string;
+    block: Block;
+    parentId: string | null;
+    index: number;
+    deletedAt: number;
+};
+
+/**
+ * Workspace entry for a document. The document's blocks and history are stored separately, keyed by id.
+ * Sub-pages created from a `page` block record the document they were created in as `parentId`.
+ */
+export type DocumentMeta = {
+    id: string;
+    title: string;
+    createdAt: number;
+    parentId?: string;
+};
+
 export type PatchOp =
     | {
           type: 'update';
@@ -149,6 +441,52 @@ export type PatchOp =
           value: boolean;
           oldValue: boolean;
       }
+    | {
+          type: 'update';
+          path: Path;
+          field: 'level';
+          value: HeadingLevel;
+          oldValue: HeadingLevel;
+      }
+    | {
+          type: 'update';
+          path: Path;
+          field: 'language';
+          value: string;
+          oldValue: string;
+      }
+    | {
+          type: 'update';
+          path: Path;
+          field: 'type';
+          value: BlockType;
+          oldValue: BlockType;
+          attributes: BlockTypeAttributes;
+          oldAttributes: BlockTypeAttributes;
+      }
+    | {
+          type: 'addMark';
+          path: Path;
+          mark: InlineMark;
+      }
+    | {
+          type: 'removeMark';
+          path: Path;
+          mark: InlineMark;
+      }
+    | {
+          type: 'setProperty';
+          path: Path;
+          key: string;
+          value: PropertyValue;
+          oldValue: PropertyValue | null;
+      }
+    | {
+          type: 'removeProperty';
+          path: Path;
+          key: string;
+          oldValue: PropertyValue;
+      }
     | {
           type: 'insert';
           parentPath: Path | null;
@@ -176,6 +514,104 @@ export type Patch = {
 export type Command = {
     forward: Patch;
     inverse: Patch;
+    /**
+     * Shown in the history instead of a description derived from the ops, e.g. for a transaction
+     */
+    label?: string;
+};
+
+/**
+ * Handle passed to a transaction: commands are built against `doc`, which reflects the steps executed so far
+ */
+export type Transaction = {
+    readonly doc: BlockArray;
+    execute: (command: Command | null) => boolean;
+};
+
+/**
+ * Where a key binding applies: `global` bindings work anywhere in the editor, `selection` ones while no block is being edited
+ * (acting on the selected blocks), and `editing` ones only while a block is being edited
+ */
+export type KeymapScope = 'global' | 'selection' | 'editing';
+
+/**
+ * The keys bound to an editor action, as shortcuts such as `Mod+Shift+Z`
+ */
+export type KeyBinding = {
+    action: string;
+    label: string;
+    keys: string[];
+    scope: KeymapScope;
+};
+
+/**
+ * Keys chosen by the user per action, replacing the default ones; an empty list unbinds the action
+ */
+export type KeymapOverrides = Record<string, string[]>;
+
+/**
+ * Actions bound to the same keys in scopes that overlap
+ */
+export type KeymapConflict = {
+    keys: string;
+    actions: string[];
+};
+
+/**
+ * What a registered command acts on: the target block (by default the first selected block, else the one holding the cursor)
+ * and the current block selection
+ */
+export type EditorCommandContext = {
+    doc: BlockArray;
+    path: Path | null;
+    block: Block | null;
+    selectedPaths: Path[];
+};
+
+/**
+ * A command contributed to the registry by the editor or a plugin. Menus, the command palette and keyboard shortcuts
+ * are generated from these definitions.
+ */
+export type EditorCommand = {
+    id: string;
+    label: string;
+    icon?: ComponentType<{ className?: string }>;
+    /**
+     * Keys joined with `+`, e.g. `Mod+Shift+D`, where `Mod` is Ctrl or Cmd
+     */
+    shortcut?: string;
+    /**
+     * Menu section the command is listed under, e.g. a submenu of the block menu; ungrouped commands are listed directly
+     */
+    group?: string;
+    /**
+     * Further words the slash menu matches besides the label
+     */
+    keywords?: string[];
+    /**
+     * Whether the command is offered in the slash menu of an empty block being edited
+     */
+    slash?: boolean;
+    /**
+     * Whether the blocks the command deletes go to the trash
+     */
+    trash?: boolean;
+    /**
+     * Whether the command applies in a context; commands without it always apply
+     */
+    when?: (context: EditorCommandContext) => boolean;
+    /**
+     * Build the command to execute, or null when there is nothing to do
+     */
+    factory: (context: EditorCommandContext) => Command | null;
+};
+
+/**
+ * A named group of commands registered together
+ */
+export type EditorPlugin = {
+    id: string;
+    commands: EditorCommand[];
 };
 
 export type CursorPosition = {
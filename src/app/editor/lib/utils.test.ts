@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Block, BlockArray, TrashEntry } from './types';
+import { getCompletedTypingShortcut, getFocusTargetId, getRestorableTrash, removePageBlocks } from './utils';
+
+// Test helpers
+const createBlock = (id: string, content: string, children?: Block[]): Block => ({ id, type: 'text', content, ...(children && { children }) });
+
+const createEntry = (id: string, block: Block): TrashEntry => ({ id, docId: 'doc-a', block, parentId: null, index: 0, deletedAt: 1000 });
+
+describe('utils', () => {
+    describe('getRestorableTrash', () => {
+        it('should hide entries whose block is back in the document, at any depth', () => {
+            const doc: BlockArray = [createBlock('1', 'Parent', [createBlock('2', 'Undeleted')])];
+            const trash = [createEntry('entry-1', createBlock('2', 'Undeleted')), createEntry('entry-2', createBlock('3', 'Deleted'))];
+
+            expect(getRestorableTrash(trash, doc).map((entry) => entry.id)).toEqual(['entry-2']);
+        });
+
+        it('should list every entry for a document without their blocks', () => {
+            const trash = [createEntry('entry-1', createBlock('2', 'Deleted'))];
+
+            expect(getRestorableTrash(trash, [createBlock('1', 'Other')])).toEqual(trash);
+        });
+    });
+
+    describe('getFocusTargetId', () => {
+        const doc: BlockArray = [createBlock('1', 'Parent', [createBlock('1.1', 'Child', [createBlock('1.1.1', 'Grandchild')])]), createBlock('2', 'Sibling')];
+
+        it('should step through nested blocks in document order', () => {
+            expect(getFocusTargetId(doc, '1', 'next')).toBe('1.1');
+            expect(getFocusTargetId(doc, '1.1.1', 'next')).toBe('2');
+            expect(getFocusTargetId(doc, '2', 'previous')).toBe('1.1.1');
+            expect(getFocusTargetId(doc, '1.1', 'previous')).toBe('1');
+        });
+
+        it('should stay on the first and last block instead of wrapping', () => {
+            expect(getFocusTargetId(doc, '1', 'previous')).toBe('1');
+            expect(getFocusTargetId(doc, '2', 'next')).toBe('2');
+        });
+
+        it('should jump to the first and last block in document order', () => {
+            expect(getFocusTargetId(doc, '1.1', 'first')).toBe('1');
+            expect(getFocusTargetId(doc, '1.1', 'last')).toBe('2');
+        });
+
+        it('should start at the first block going forward and the last going back without a focused block', () => {
+            expect(getFocusTargetId(doc, null, 'next')).toBe('1');
+            expect(getFocusTargetId(doc, null, 'previous')).toBe('2');
+            expect(getFocusTargetId(doc, 'removed', 'next')).toBe('1');
+        });
+
+        it('should return null for an empty document', () => {
+            expect(getFocusTargetId([], null, 'next')).toBeNull();
+            expect(getFocusTargetId([], null, 'last')).toBeNull();
+        });
+    });
+
+    describe('getCompletedTypingShortcut', () => {
+        it('should detect a prefix completed by the latest edit', () => {
+            expect(getCompletedTypingShortcut(createBlock('1', '[]foo'), '[]foo', '[] foo')).toEqual({ type: 'todo', done: false, prefixLength: 3 });
+            expect(getCompletedTypingShortcut(createBlock('1', ''), '[x', '[x] ')).toEqual({ type: 'todo', done: true, prefixLength: 4 });
+        });
+
+        it('should ignore edits elsewhere in content that already started with a prefix', () => {
+            expect(getCompletedTypingShortcut(createBlock('1', '[] pasted'), '[] pasted', '[] pasted text')).toBeNull();
+            expect(getCompletedTypingShortcut({ id: '2', type: 'todo', content: '- item' }, '- item', '- items')).toBeNull();
+        });
+    });
+
+    describe('removePageBlocks', () => {
+        it('should leave page blocks out at any depth, keeping the other blocks', () => {
+            const blocks: BlockArray = [
+                createBlock('1', 'Parent', [createBlock('2', 'Child'), { id: '3', type: 'page', content: 'Nested', pageId: 'page-1' }]),
+                { id: '4', type: 'page', content: 'Top', pageId: 'page-2', children: [createBlock('5', 'Under page')] },
+            ];
+
+            expect(removePageBlocks(blocks)).toEqual([createBlock('1', 'Parent', [createBlock('2', 'Child')])]);
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { Block, BlockArray, BlockType, Command, Path } from './types';
+import { ARCHIVE_CONFIG, CODE_BLOCK_CONFIG, PROPERTY_CONFIG, WORKSPACE_CONFIG } from './config';
+import { Block, BlockArray, BlockType, BlockTypeAttributes, ChildSortOrder, Command, DocumentMeta, DueDateStatus, FlatBlock, FocusTarget, HeadingLevel, Path, PropertyValue, TrashEntry } from './types';
 
 export const getParentArray = (doc: BlockArray, path: Path | null): Block[] | null => {
     if (path === null || path.length === 0) {
@@ -55,12 +56,123 @@ export const generateId = (): string => {
     return crypto.randomUUID();
 };
 
-export const createBlock = (type: BlockType, content: string = '', autoFocus: boolean = false): Block => {
+/**
+ * Deep-copy a block subtree with fresh IDs for every block, dropping transient flags.
+ * Page blocks keep their `pageId`, so copies that live next to the original must leave them out (see removePageBlocks).
+ */
+export const cloneBlockWithNewIds = (block: Block): Block => {
+    const copy = structuredClone(block);
+    delete copy.autoFocus;
+    copy.id = generateId();
+    if (copy.children) copy.children = copy.children.map(cloneBlockWithNewIds);
+    return copy;
+};
+
+/**
+ * Check whether a block or any block below it is a page block
+ */
+export const containsPageBlock = (block: Block): boolean => {
+    return isPageBlock(block) || (block.children ?? []).some(containsPageBlock);
+};
+
+/**
+ * Leave page blocks (with their subtrees) out of blocks about to be copied, since a copy would share the original's sub-page
+ */
+export const removePageBlocks = (blocks: BlockArray): BlockArray => {
+    return blocks.filter((block) => !isPageBlock(block)).map((block) => (block.children ? { ...block, children: removePageBlocks(block.children) } : block));
+};
+
+/**
+ * Create workspace metadata for a new document
+ */
+export const createDocumentMeta = (title: string = WORKSPACE_CONFIG.DEFAULT_DOCUMENT_TITLE, parentId?: string, id: string = generateId()): DocumentMeta => {
+    return { id, title, createdAt: Date.now(), ...(parentId && { parentId }) };
+};
+
+/**
+ * Get a document followed by its ancestors, nearest first (stops at missing or cyclic parents)
+ */
+export const getDocumentAncestry = (documents: DocumentMeta[], id: string): DocumentMeta[] => {
+    const ancestry: DocumentMeta[] = [];
+    let current = documents.find((document) => document.id === id);
+    while (current && !ancestry.includes(current)) {
+        ancestry.push(current);
+        const parentId = current.parentId;
+        current = parentId ? documents.find((document) => document.id === parentId) : undefined;
+    }
+    return ancestry;
+};
+
+/**
+ * Get the ids of a document and every sub-page nested under it
+ */
+export const getDocumentSubtreeIds = (documents: DocumentMeta[], id: string): string[] => {
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+        documents.forEach((document) => {
+            if (document.parentId === ids[i] && !ids.includes(document.id)) ids.push(document.id);
+        });
+    }
+    return ids;
+};
+
+/**
+ * Record the block at a location as a trash entry, or null if there is no block there
+ */
+export const createTrashEntry = (docId: string, doc: BlockArray, parentPath: Path | null, index: number): TrashEntry | null => {
+    const siblings = parentPath === null ? doc : getBlockAtPath(doc, parentPath)?.children;
+    const block = siblings?.[index];
+    if (!block) return null;
+
+    return {
+        id: generateId(),
+        docId,
+        block: stripTransientFlags(block),
+        parentId: parentPath === null ? null : (getBlockAtPath(doc, parentPath)?.id ?? null),
+        index,
+        deletedAt: Date.now(),
+    };
+};
+
+/**
+ * Get the trash entries that can be restored into a document: those whose block is not in it.
+ * This hides a deleted block while undo has brought it back, and lists it again once the delete is redone.
+ */
+export const getRestorableTrash = (trash: TrashEntry[], doc: BlockArray): TrashEntry[] => {
+    const ids = new Set(flattenBlocks(doc).map(({ block }) => block.id));
+    return trash.filter((entry) => !ids.has(entry.block.id));
+};
+
+/**
+ * Get the default type-specific fields for a newly created or converted block
+ */
+export const getDefaultTypeAttributes = (type: BlockType, level: HeadingLevel = 1): BlockTypeAttributes => {
+    return {
+        ...(type === 'todo' && { done: false }),
+        ...(type === 'heading' && { level }),
+        ...(type === 'code' && { language: CODE_BLOCK_CONFIG.DEFAULT_LANGUAGE }),
+        ...(type === 'page' && { pageId: generateId() }),
+    };
+};
+
+/**
+ * Get the type-specific fields currently set on a block
+ */
+export const getTypeAttributes = (block: Block): BlockTypeAttributes => {
+    return {
+        ...(block.done !== undefined && { done: block.done }),
+        ...(block.level !== undefined && { level: block.level }),
+        ...(block.language !== undefined && { language: block.language }),
+        ...(block.pageId !== undefined && { pageId: block.pageId }),
+    };
+};
+
+export const createBlock = (type: BlockType, content: string = '', autoFocus: boolean = false, level: HeadingLevel = 1): Block => {
     return {
         id: generateId(),
         type,
         content,
-        ...(type === 'todo' && { done: false }),
+        ...getDefaultTypeAttributes(type, level),
         ...(autoFocus && { autoFocus: true }),
     };
 };
@@ -112,10 +224,81 @@ export const getTimeAgo = (timestamp: number): string => {
     return `${Math.floor(seconds / 86400)}d ago`;
 };
 
+/**
+ * Get the display label of a block property
+ */
+export const getPropertyLabel = (key: string): string => {
+    return PROPERTY_CONFIG.KNOWN_PROPERTIES[key]?.label ?? key;
+};
+
+/**
+ * Format a property value for display
+ */
+export const formatPropertyValue = (property: PropertyValue): string => {
+    return property.kind === 'list' ? property.value.join(', ') : property.value;
+};
+
+/**
+ * Check that a YYYY-MM-DD string names a real calendar date
+ */
+export const isValidDateString = (value: string): boolean => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export const toDateString = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get a block's due date (the `dueDate` date property), if any
+ */
+export const getDueDate = (block: Block): string | null => {
+    const property = block.properties?.dueDate;
+    return property?.kind === 'date' ? property.value : null;
+};
+
+/**
+ * Classify a YYYY-MM-DD due date against today's local date
+ */
+export const getDueDateStatus = (dueDate: string, now: Date = new Date()): DueDateStatus => {
+    const today = toDateString(now);
+    if (dueDate < today) return 'overdue';
+    if (dueDate === today) return 'today';
+    return 'upcoming';
+};
+
+const compareDone = (a: Block, b: Block): number => Number(a.done ?? false) - Number(b.done ?? false);
+
+/**
+ * Comparators for each child sort order. Sorting is stable, so equal blocks keep their relative order;
+ * blocks that are not todos count as not done, and blocks without a due date go last.
+ */
+export const CHILD_SORT_COMPARATORS: Record<ChildSortOrder, (a: Block, b: Block) => number> = {
+    alphabetical: (a, b) => a.content.localeCompare(b.content, undefined, { sensitivity: 'base', numeric: true }),
+    doneFirst: (a, b) => compareDone(b, a),
+    doneLast: compareDone,
+    dueDate: (a, b) => {
+        const aDue = getDueDate(a);
+        const bDue = getDueDate(b);
+        if (aDue === bDue) return 0;
+        if (aDue === null) return 1;
+        if (bDue === null) return -1;
+        return aDue < bDue ? -1 : 1;
+    },
+};
+
 /**
  * Get a preview/description of what a command does
  */
 export const getCommandPreview = (command: Command): string => {
+    if (command.label) return command.label;
+
     const op = command.forward.ops[0];
 
     if (!op) return 'Unknown';
@@ -123,17 +306,47 @@ export const getCommandPreview = (command: Command): string => {
     switch (op.type) {
         case 'update':
             if (op.field === 'content') {
+                // Split and merge start by editing the text, then insert or delete a block
+                if (command.forward.ops.some((other) => other.type === 'insert')) return 'Split block';
+                if (command.forward.ops.some((other) => other.type === 'delete')) return 'Merge blocks';
+                const contentUpdates = command.forward.ops.filter((other) => other.type === 'update' && other.field === 'content').length;
+                if (contentUpdates > 1) return `Replace ${contentUpdates} matches`;
                 const preview = op.value.slice(0, 30);
                 return `Edit: "${preview}${op.value.length > 30 ? '...' : ''}"`;
             }
             if (op.field === 'done') return op.value ? 'Complete todo' : 'Uncompleted todo';
+            if (op.field === 'level') return `Set heading level ${op.value}`;
+            if (op.field === 'language') return `Set code language: ${op.value}`;
+            if (op.field === 'type') return `Convert to ${op.value}`;
             return 'Update';
-        case 'insert':
+        case 'addMark':
+        case 'removeMark': {
+            // Toggling a mark may split or merge ranges, so compare the total length formatted vs cleared
+            const markedLength = command.forward.ops.reduce((total, markOp) => {
+                if (markOp.type === 'addMark') return total + markOp.mark.end - markOp.mark.start;
+                if (markOp.type === 'removeMark') return total - (markOp.mark.end - markOp.mark.start);
+                return total;
+            }, 0);
+            const label = op.mark.type === 'link' ? 'link' : op.mark.type;
+            return markedLength >= 0 ? `Add ${label}` : `Remove ${label}`;
+        }
+        case 'setProperty':
+            return `Set ${getPropertyLabel(op.key)}`;
+        case 'removeProperty':
+            return `Remove ${getPropertyLabel(op.key)}`;
+        case 'insert': {
+            if (command.forward.ops.some((other) => other.type === 'delete')) return `Replace with ${op.block.type}`;
+            const insertCount = command.forward.ops.filter((other) => other.type === 'insert').length;
+            if (insertCount > 1) return `Insert ${insertCount} blocks`;
+            if (op.block.type === 'heading') return `Insert heading ${op.block.level ?? 1}`;
             return `Insert ${op.block.type}`;
-        case 'delete':
-            return `Delete ${op.deleted.type}`;
+        }
+        case 'delete': {
+            const deleteCount = command.forward.ops.filter((other) => other.type === 'delete').length;
+            return deleteCount > 1 ? `Delete ${deleteCount} blocks` : `Delete ${op.deleted.type}`;
+        }
         case 'move':
-            return 'Move block';
+            return command.forward.ops.length > 1 ? 'Reorder blocks' : 'Move block';
         default:
             return 'Unknown';
     }
@@ -149,6 +362,131 @@ export const pathEquals = (path1: Path | null, path2: Path | null): boolean => {
     return path1.every((val, idx) => val === path2[idx]);
 };
 
+/**
+ * Compare two paths in document order (a parent comes before its children)
+ */
+export const comparePaths = (a: Path, b: Path): number => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+};
+
+/**
+ * Check whether `ancestor` is a strict ancestor of `path`
+ */
+export const isAncestorPath = (ancestor: Path, path: Path): boolean => {
+    return ancestor.length < path.length && ancestor.every((value, index) => value === path[index]);
+};
+
+/**
+ * Sort paths in document order and drop those nested under another path in the list,
+ * so batch operations act on each selected subtree once
+ */
+export const getTopLevelPaths = (paths: Path[]): Path[] => {
+    const sorted = [...paths].sort(comparePaths);
+    return sorted.filter((path, index) => !sorted.slice(0, index).some((other) => pathEquals(other, path) || isAncestorPath(other, path)));
+};
+
+/**
+ * Flatten a block tree into document order (each block followed by its children)
+ */
+export const flattenBlocks = (blocks: BlockArray, parentPath: Path = []): FlatBlock[] => {
+    return blocks.flatMap((block, index) => {
+        const path = [...parentPath, index];
+        return [{ block, path }, ...flattenBlocks(block.children ?? [], path)];
+    });
+};
+
+/**
+ * Get the index of the archive section: the top-level heading titled ARCHIVE_CONFIG.TITLE, or -1 if there is none
+ */
+export const getArchiveIndex = (doc: BlockArray): number => {
+    return doc.findIndex((block) => isHeadingBlock(block) && block.content === ARCHIVE_CONFIG.TITLE);
+};
+
+/**
+ * Get the paths of the done todos under a block, or anywhere in the document when scopePath is null, in document order.
+ * A document-wide scope skips the archive section so archived todos are left alone.
+ */
+export const getCompletedTodoPaths = (doc: BlockArray, scopePath: Path | null): Path[] => {
+    const scope = scopePath === null ? flattenBlocks(doc) : flattenBlocks(getBlockAtPath(doc, scopePath)?.children ?? [], scopePath);
+    const archiveIndex = scopePath === null ? getArchiveIndex(doc) : -1;
+
+    return scope.filter(({ block, path }) => isTodoBlock(block) && block.done && path[0] !== archiveIndex).map(({ path }) => path);
+};
+
+/**
+ * Get the block directly before a path in document order: the previous sibling's last descendant, or the parent
+ */
+export const getPreviousBlock = (doc: BlockArray, path: Path): FlatBlock | null => {
+    const flat = flattenBlocks(doc);
+    const index = flat.findIndex((entry) => pathEquals(entry.path, path));
+    return index > 0 ? flat[index - 1] : null;
+};
+
+/**
+ * Get the IDs of all blocks between two blocks (inclusive) in document order
+ */
+export const getBlockIdsInRange = (doc: BlockArray, anchorId: string, focusId: string): string[] => {
+    const ids = flattenBlocks(doc).map(({ block }) => block.id);
+    const anchorIndex = ids.indexOf(anchorId);
+    const focusIndex = ids.indexOf(focusId);
+    if (anchorIndex === -1 || focusIndex === -1) return [];
+
+    return ids.slice(Math.min(anchorIndex, focusIndex), Math.max(anchorIndex, focusIndex) + 1);
+};
+
+/**
+ * Get the ID of the block that keyboard navigation moves the focus to, stepping through nested blocks in document order.
+ * Without a focused block, stepping forward starts at the first block and stepping back at the last one.
+ * Returns null for an empty document.
+ */
+export const getFocusTargetId = (doc: BlockArray, focusedId: string | null, target: FocusTarget): string | null => {
+    const ids = flattenBlocks(doc).map(({ block }) => block.id);
+    const index = focusedId ? ids.indexOf(focusedId) : -1;
+    if (target === 'first' || (target === 'next' && index === -1)) return ids[0] ?? null;
+    if (target === 'last' || (target === 'previous' && index === -1)) return ids.at(-1) ?? null;
+    return ids[target === 'next' ? Math.min(index + 1, ids.length - 1) : Math.max(index - 1, 0)];
+};
+
+/**
+ * Get the filter text of a slash command typed into an otherwise empty block ("/todo" gives "todo"),
+ * or null if the content is not a slash command
+ */
+export const getSlashQuery = (content: string): string | null => {
+    const match = /^\/([\w ]*)$/.exec(content);
+    return match ? match[1] : null;
+};
+
+const TODO_SHORTCUT_PATTERN = /^\[([ xX]?)\] /;
+const TEXT_SHORTCUT_PATTERN = /^[-*] /;
+
+/**
+ * Detect a Markdown-style prefix at the start of a block's content: `[] ` or `[x] ` on a non-todo block
+ * turns it into an open or done todo, and `- ` or `* ` on a todo turns it back into text.
+ * Code and page blocks have no shortcuts.
+ */
+export const getTypingShortcut = (block: Block, content: string): { type: BlockType; done: boolean; prefixLength: number } | null => {
+    if (isCodeBlock(block) || isPageBlock(block)) return null;
+
+    if (isTodoBlock(block)) {
+        const match = TEXT_SHORTCUT_PATTERN.exec(content);
+        return match ? { type: 'text', done: false, prefixLength: match[0].length } : null;
+    }
+
+    const match = TODO_SHORTCUT_PATTERN.exec(content);
+    return match ? { type: 'todo', done: match[1].trim() !== '', prefixLength: match[0].length } : null;
+};
+
+/**
+ * Detect a typing shortcut completed by the latest edit: the new content starts with a prefix the previous content did not.
+ * Content that already started with a prefix (e.g. pasted or imported text) is not converted by edits elsewhere in it.
+ */
+export const getCompletedTypingShortcut = (block: Block, previousContent: string, content: string): ReturnType<typeof getTypingShortcut> => {
+    return getTypingShortcut(block, previousContent) ? null : getTypingShortcut(block, content);
+};
+
 /**
  * Find a block by ID in a block tree
  */
@@ -172,6 +510,27 @@ export const isTodoBlock = (block: Block): boolean => {
     return block.type === 'todo';
 };
 
+/**
+ * Check if a block is a heading type
+ */
+export const isHeadingBlock = (block: Block): boolean => {
+    return block.type === 'heading';
+};
+
+/**
+ * Check if a block is a code type
+ */
+export const isCodeBlock = (block: Block): boolean => {
+    return block.type === 'code';
+};
+
+/**
+ * Check if a block is a page type
+ */
+export const isPageBlock = (block: Block): boolean => {
+    return block.type === 'page';
+};
+
 /**
  * Strip transient flags from a block
  */
@@ -114,6 +114,164 @@ describe('validation - corrupted data recovery', () => {
             expect(result.isValid).toBe(true);
         });
 
+        it('should accept heading blocks with a level', () => {
+            const doc: BlockArray = [{ id: '1', type: 'heading', content: 'Title', level: 2 }];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should detect out-of-range heading level', () => {
+            const doc = [{ id: '1', type: 'heading', content: 'Title', level: 4 }] as unknown as BlockArray;
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0].type).toBe('schema_error');
+        });
+
+        it('should detect heading without level and level on non-heading', () => {
+            const doc: BlockArray = [
+                { id: '1', type: 'heading', content: 'Title' },
+                { id: '2', type: 'text', content: 'Body', level: 1 },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toHaveLength(2);
+            expect(result.errors.every((error) => error.type === 'invalid_block')).toBe(true);
+        });
+
+        it('should detect code block without language and language on non-code', () => {
+            const doc: BlockArray = [
+                { id: '1', type: 'code', content: 'x = 1' },
+                { id: '2', type: 'todo', content: 'Task', done: false, language: 'python' },
+                { id: '3', type: 'code', content: 'y = 2', language: 'python' },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toHaveLength(2);
+            expect(result.errors.every((error) => error.type === 'invalid_block')).toBe(true);
+        });
+
+        it('should detect page block without page id and page id on non-page', () => {
+            const doc: BlockArray = [
+                { id: '1', type: 'page', content: '' },
+                { id: '2', type: 'text', content: 'Notes', pageId: 'doc-2' },
+                { id: '3', type: 'page', content: '', pageId: 'doc-3' },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toHaveLength(2);
+            expect(result.errors.every((error) => error.type === 'invalid_block')).toBe(true);
+        });
+
+        it('should accept marks inside the content', () => {
+            const doc: BlockArray = [
+                {
+                    id: '1',
+                    type: 'text',
+                    content: 'Hello world',
+                    marks: [
+                        { type: 'bold', start: 0, end: 5 },
+                        { type: 'link', start: 6, end: 11, href: 'https://example.com' },
+                    ],
+                },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should detect out-of-range and empty marks', () => {
+            const doc: BlockArray = [
+                {
+                    id: '1',
+                    type: 'text',
+                    content: 'Hi',
+                    marks: [
+                        { type: 'bold', start: 0, end: 5 },
+                        { type: 'italic', start: 1, end: 1 },
+                    ],
+                },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toHaveLength(2);
+            expect(result.errors.every((error) => error.type === 'invalid_mark')).toBe(true);
+        });
+
+        it('should reject links without a target', () => {
+            const doc = [{ id: '1', type: 'text', content: 'Hi', marks: [{ type: 'link', start: 0, end: 2 }] }] as unknown as BlockArray;
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0].type).toBe('schema_error');
+        });
+
+        it('should accept known and custom properties', () => {
+            const doc: BlockArray = [
+                {
+                    id: '1',
+                    type: 'todo',
+                    content: 'Task',
+                    done: false,
+                    properties: {
+                        tags: { kind: 'list', value: ['a', 'b'] },
+                        dueDate: { kind: 'date', value: '2026-02-28' },
+                        priority: { kind: 'enum', value: 'high', options: ['low', 'medium', 'high'] },
+                        estimate: { kind: 'string', value: '2h' },
+                    },
+                },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should detect malformed property values', () => {
+            const doc = [
+                { id: '1', type: 'text', content: 'Note', properties: { dueDate: { kind: 'date', value: 'tomorrow' } } },
+            ] as unknown as BlockArray;
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0].type).toBe('schema_error');
+        });
+
+        it('should detect kind mismatches, unknown enum values and impossible dates', () => {
+            const doc: BlockArray = [
+                {
+                    id: '1',
+                    type: 'text',
+                    content: 'Note',
+                    properties: {
+                        tags: { kind: 'string', value: 'a, b' },
+                        status: { kind: 'enum', value: 'blocked', options: ['open', 'closed'] },
+                        dueDate: { kind: 'date', value: '2026-02-30' },
+                    },
+                },
+            ];
+
+            const result = validateDocument(doc);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toHaveLength(3);
+            expect(result.errors.every((error) => error.type === 'invalid_property')).toBe(true);
+        });
+
         it('should detect multiple errors', () => {
             const doc = [
                 { id: 'dup', type: 'text', content: 'First' },
@@ -1,9 +1,10 @@
 import { ZodError } from 'zod';
 import { Block, BlockArray, BlockArraySchema, CursorPosition, CursorPositionSchema, HistoryNode, HistoryNodesSchema, Path } from '../types';
-import { findBlockById } from '../utils';
+import { PROPERTY_CONFIG } from '../config';
+import { findBlockById, isValidDateString } from '../utils';
 
 export type ValidationError = {
-    type: 'duplicate_id' | 'invalid_block' | 'invalid_history' | 'invalid_cursor' | 'orphaned_parent' | 'schema_error';
+    type: 'duplicate_id' | 'invalid_block' | 'invalid_mark' | 'invalid_property' | 'invalid_history' | 'invalid_cursor' | 'orphaned_parent' | 'schema_error';
     message: string;
     details?: object;
 };
@@ -56,6 +57,98 @@ export const validateDocument = (doc: BlockArray): ValidationResult => {
         }
         seenIds.add(block.id);
 
+        // Headings must carry a level, other block types must not
+        if (block.type === 'heading' && block.level === undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Heading block is missing a level: ${block.id}`,
+                details: { blockId: block.id, path },
+            });
+        }
+        if (block.type !== 'heading' && block.level !== undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Only heading blocks can have a level: ${block.id}`,
+                details: { blockId: block.id, path, type: block.type },
+            });
+        }
+
+        // Code blocks must carry a language, other block types must not
+        if (block.type === 'code' && block.language === undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Code block is missing a language: ${block.id}`,
+                details: { blockId: block.id, path },
+            });
+        }
+        if (block.type !== 'code' && block.language !== undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Only code blocks can have a language: ${block.id}`,
+                details: { blockId: block.id, path, type: block.type },
+            });
+        }
+
+        // Page blocks must reference their sub-page document, other block types must not
+        if (block.type === 'page' && block.pageId === undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Page block is missing a page id: ${block.id}`,
+                details: { blockId: block.id, path },
+            });
+        }
+        if (block.type !== 'page' && block.pageId !== undefined) {
+            errors.push({
+                type: 'invalid_block',
+                message: `Only page blocks can have a page id: ${block.id}`,
+                details: { blockId: block.id, path, type: block.type },
+            });
+        }
+
+        // Inline marks must cover a non-empty range inside the content
+        block.marks?.forEach((mark, markIndex) => {
+            if (mark.start >= mark.end) {
+                errors.push({
+                    type: 'invalid_mark',
+                    message: `Mark ${mark.type} has an empty or inverted range (${mark.start}-${mark.end}) in block ${block.id}`,
+                    details: { blockId: block.id, path, markIndex, mark },
+                });
+            }
+            if (mark.end > block.content.length) {
+                errors.push({
+                    type: 'invalid_mark',
+                    message: `Mark ${mark.type} end (${mark.end}) exceeds content length (${block.content.length}) in block ${block.id}`,
+                    details: { blockId: block.id, path, markIndex, mark, contentLength: block.content.length },
+                });
+            }
+        });
+
+        // Properties must match their declared kind and enum options
+        Object.entries(block.properties ?? {}).forEach(([key, property]) => {
+            const known = PROPERTY_CONFIG.KNOWN_PROPERTIES[key];
+            if (known && known.kind !== property.kind) {
+                errors.push({
+                    type: 'invalid_property',
+                    message: `Property ${key} must be a ${known.kind}, got ${property.kind} in block ${block.id}`,
+                    details: { blockId: block.id, path, key, property },
+                });
+            }
+            if (property.kind === 'enum' && !property.options.includes(property.value)) {
+                errors.push({
+                    type: 'invalid_property',
+                    message: `Property ${key} value "${property.value}" is not one of its options in block ${block.id}`,
+                    details: { blockId: block.id, path, key, property },
+                });
+            }
+            if (property.kind === 'date' && !isValidDateString(property.value)) {
+                errors.push({
+                    type: 'invalid_property',
+                    message: `Property ${key} is not a valid date: ${property.value} in block ${block.id}`,
+                    details: { blockId: block.id, path, key, property },
+                });
+            }
+        });
+
         // Recursively validate children
         if (block.children) {
             block.children.forEach((child, index) => {
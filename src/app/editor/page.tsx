@@ -0,0 +1,20 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useWorkspace } from './hooks';
+
+/**
+ * `/editor` opens the first workspace document
+ */
+export default function EditorIndexPage() {
+    const { documents } = useWorkspace();
+    const router = useRouter();
+    const firstDocId = documents[0]?.id;
+
+    useEffect(() => {
+        if (firstDocId) router.replace(`/editor/${firstDocId}`);
+    }, [firstDocId, router]);
+
+    return null;
+}
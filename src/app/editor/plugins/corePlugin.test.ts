@@ -0,0 +1,41 @@
+import { Block, EditorCommandContext, getAvailableCommands, getBlockAtPath, Path } from '@/editor/lib';
+import { describe, expect, it } from 'vitest';
+import { CORE_PLUGIN } from './corePlugin';
+
+// Test helpers
+const createBlock = (id: string, children?: Block[]): Block => ({ id, type: 'text', content: id, ...(children && { children }) });
+
+const defaultDoc = [createBlock('1', [createBlock('1.1'), createBlock('1.2')]), createBlock('2')];
+
+const getCommandIds = (path: Path, doc: Block[] = defaultDoc): string[] => {
+    const context: EditorCommandContext = { doc, path, block: getBlockAtPath(doc, path), selectedPaths: [] };
+    return getAvailableCommands(CORE_PLUGIN.commands, context).map((command) => command.id);
+};
+
+describe('CORE_PLUGIN', () => {
+    it('should only offer moves the block can make among its siblings', () => {
+        expect(getCommandIds([0])).toContain('block.moveDown');
+        expect(getCommandIds([0])).not.toContain('block.moveUp');
+        expect(getCommandIds([1])).toContain('block.moveUp');
+        expect(getCommandIds([1])).not.toContain('block.moveDown');
+        expect(getCommandIds([0, 1])).not.toContain('block.moveDown');
+    });
+
+    it('should only offer turning a block other than a page into a different type or heading level', () => {
+        const heading: Block = { id: 'h', type: 'heading', content: '', level: 2 };
+        const ids = getCommandIds([0], [heading]);
+
+        expect(ids).toContain('block.turnInto.text');
+        expect(ids).toContain('block.turnInto.heading1');
+        expect(ids).not.toContain('block.turnInto.heading2');
+        expect(getCommandIds([0], [{ id: 'p', type: 'page', content: 'Notes', pageId: 'page-1' }]).some((id) => id.startsWith('block.turnInto.'))).toBe(false);
+    });
+
+    it('should only offer code languages other than the current one for code blocks', () => {
+        const code: Block = { id: 'c', type: 'code', content: '', language: 'typescript' };
+
+        expect(getCommandIds([0], [code])).toContain('block.language.python');
+        expect(getCommandIds([0], [code])).not.toContain('block.language.typescript');
+        expect(getCommandIds([0]).some((id) => id.startsWith('block.language.'))).toBe(false);
+    });
+});
@@ -0,0 +1,234 @@
+import {
+    archiveCompletedCommand,
+    BlockType,
+    ChildSortOrder,
+    clearCompletedCommand,
+    CODE_BLOCK_CONFIG,
+    containsPageBlock,
+    deleteBlockCommand,
+    duplicateBlockCommand,
+    EditorCommand,
+    EditorCommandContext,
+    EditorPlugin,
+    flattenBlocks,
+    getCompletedTodoPaths,
+    getParentArray,
+    HeadingLevel,
+    indentBlockCommand,
+    insertBlockCommand,
+    isCodeBlock,
+    isPageBlock,
+    isTodoBlock,
+    moveBlockByOneCommand,
+    outdentBlockCommand,
+    setCodeLanguageCommand,
+    sortChildrenCommand,
+    toggleTodoCommand,
+    toggleTodosCommand,
+    turnIntoCommand,
+} from '@/editor/lib';
+import {
+    Archive,
+    ArrowDown,
+    ArrowUp,
+    CheckSquare,
+    Code,
+    Copy,
+    File,
+    FileText,
+    Heading1,
+    Heading2,
+    Heading3,
+    IndentDecrease,
+    IndentIncrease,
+    ListChecks,
+    ListX,
+    SquareCheck,
+    Trash2,
+} from 'lucide-react';
+
+type Path = NonNullable<EditorCommandContext['path']>;
+
+const getParentPath = (path: Path): Path | null => (path.length > 1 ? path.slice(0, -1) : null);
+
+const hasBlock = ({ block }: EditorCommandContext) => block !== null;
+
+const hasNextSibling = ({ doc, path }: EditorCommandContext) => {
+    if (!path) return false;
+    const siblings = getParentArray(doc, getParentPath(path)) ?? [];
+    return path[path.length - 1] < siblings.length - 1;
+};
+
+const hasCompletedChildren = ({ block }: EditorCommandContext) => flattenBlocks(block?.children ?? []).some(({ block: child }) => isTodoBlock(child) && child.done);
+
+const BLOCK_TYPES: { type: BlockType; label: string; icon: EditorCommand['icon'] }[] = [
+    { type: 'text', label: 'Text', icon: FileText },
+    { type: 'todo', label: 'Todo', icon: CheckSquare },
+    { type: 'heading', label: 'Heading', icon: Heading1 },
+    { type: 'code', label: 'Code', icon: Code },
+    { type: 'page', label: 'Page', icon: File },
+];
+
+// Turn-into targets double as the slash menu's block types, so they carry its keywords
+const TURN_INTO_TARGETS: { id: string; type: BlockType; level?: HeadingLevel; label: string; keywords: string[]; icon: EditorCommand['icon'] }[] = [
+    { id: 'text', type: 'text', label: 'Text', keywords: ['paragraph', 'plain'], icon: FileText },
+    { id: 'todo', type: 'todo', label: 'Todo', keywords: ['task', 'checkbox', 'checklist'], icon: CheckSquare },
+    { id: 'heading1', type: 'heading', level: 1, label: 'Heading 1', keywords: ['h1', 'title'], icon: Heading1 },
+    { id: 'heading2', type: 'heading', level: 2, label: 'Heading 2', keywords: ['h2', 'subtitle'], icon: Heading2 },
+    { id: 'heading3', type: 'heading', level: 3, label: 'Heading 3', keywords: ['h3'], icon: Heading3 },
+    { id: 'code', type: 'code', label: 'Code', keywords: ['snippet', 'pre'], icon: Code },
+    { id: 'page', type: 'page', label: 'Page', keywords: ['subpage', 'document'], icon: File },
+];
+
+const CHILD_SORT_ORDER_LABELS: Record<ChildSortOrder, string> = {
+    alphabetical: 'Alphabetically',
+    doneFirst: 'Done first',
+    doneLast: 'Done last',
+    dueDate: 'By due date',
+};
+
+/**
+ * Commands the editor ships with, registered before any other plugin so plugins can override them by ID.
+ * They are listed in this order in the block menu, the slash menu and the command palette.
+ */
+export const CORE_PLUGIN: EditorPlugin = {
+    id: 'core',
+    commands: [
+        ...BLOCK_TYPES.map(
+            ({ type, label, icon }): EditorCommand => ({
+                id: `insert.child.${type}`,
+                label,
+                icon,
+                group: 'Add child',
+                when: hasBlock,
+                factory: ({ path, block }) => path && insertBlockCommand(path, block?.children?.length ?? 0, type),
+            }),
+        ),
+        // Without a target block, new blocks go at the end of the document
+        ...BLOCK_TYPES.map(
+            ({ type, label, icon }): EditorCommand => ({
+                id: `insert.below.${type}`,
+                label,
+                icon,
+                group: 'Add below',
+                factory: ({ doc, path }) => (path ? insertBlockCommand(getParentPath(path), path[path.length - 1] + 1, type) : insertBlockCommand(null, doc.length, type)),
+            }),
+        ),
+        ...TURN_INTO_TARGETS.map(
+            ({ id, type, level, label, keywords, icon }): EditorCommand => ({
+                id: `block.turnInto.${id}`,
+                label,
+                icon,
+                group: 'Turn into',
+                keywords,
+                slash: true,
+                when: ({ block }) => block !== null && !isPageBlock(block) && (block.type !== type || (level !== undefined && (block.level ?? 1) !== level)),
+                factory: ({ doc, path }) => path && turnIntoCommand(doc, path, type, level),
+            }),
+        ),
+        ...CODE_BLOCK_CONFIG.LANGUAGES.map(
+            (language): EditorCommand => ({
+                id: `block.language.${language}`,
+                label: language,
+                group: 'Language',
+                when: ({ block }) => block !== null && isCodeBlock(block) && block.language !== language,
+                factory: ({ doc, path }) => path && setCodeLanguageCommand(doc, path, language),
+            }),
+        ),
+        ...(Object.keys(CHILD_SORT_ORDER_LABELS) as ChildSortOrder[]).map(
+            (order): EditorCommand => ({
+                id: `block.sortChildren.${order}`,
+                label: CHILD_SORT_ORDER_LABELS[order],
+                group: 'Sort children',
+                when: ({ block }) => (block?.children?.length ?? 0) > 1,
+                factory: ({ doc, path }) => path && sortChildrenCommand(doc, path, order),
+            }),
+        ),
+        {
+            id: 'block.duplicate',
+            label: 'Duplicate block',
+            icon: Copy,
+            shortcut: 'Mod+D',
+            when: ({ block }) => block !== null && !containsPageBlock(block),
+            factory: ({ doc, path }) => path && duplicateBlockCommand(doc, getParentPath(path), path[path.length - 1]),
+        },
+        {
+            id: 'block.toggleTodo',
+            label: 'Toggle todo',
+            icon: SquareCheck,
+            when: ({ block }) => block !== null && isTodoBlock(block),
+            factory: ({ doc, path }) => path && toggleTodoCommand(doc, path),
+        },
+        {
+            id: 'block.moveUp',
+            label: 'Move block up',
+            icon: ArrowUp,
+            keywords: ['up'],
+            slash: true,
+            when: ({ path }) => path !== null && path[path.length - 1] > 0,
+            factory: ({ doc, path }) => path && moveBlockByOneCommand(doc, path, 'up'),
+        },
+        {
+            id: 'block.moveDown',
+            label: 'Move block down',
+            icon: ArrowDown,
+            keywords: ['down'],
+            slash: true,
+            when: hasNextSibling,
+            factory: ({ doc, path }) => path && moveBlockByOneCommand(doc, path, 'down'),
+        },
+        {
+            id: 'block.indent',
+            label: 'Indent block',
+            icon: IndentIncrease,
+            when: ({ path }) => path !== null && path[path.length - 1] > 0,
+            factory: ({ doc, path }) => path && indentBlockCommand(doc, path),
+        },
+        {
+            id: 'block.outdent',
+            label: 'Outdent block',
+            icon: IndentDecrease,
+            when: ({ path }) => path !== null && path.length > 1,
+            factory: ({ doc, path }) => path && outdentBlockCommand(doc, path),
+        },
+        {
+            id: 'block.clearCompleted',
+            label: 'Clear completed',
+            icon: ListX,
+            trash: true,
+            when: hasCompletedChildren,
+            factory: ({ doc, path }) => path && clearCompletedCommand(doc, path),
+        },
+        {
+            id: 'block.archiveCompleted',
+            label: 'Archive completed',
+            icon: Archive,
+            when: hasCompletedChildren,
+            factory: ({ doc, path }) => path && archiveCompletedCommand(doc, path),
+        },
+        {
+            id: 'selection.toggleTodos',
+            label: 'Toggle selected todos',
+            icon: ListChecks,
+            when: ({ selectedPaths }) => selectedPaths.length > 1,
+            factory: ({ doc, selectedPaths }) => toggleTodosCommand(doc, selectedPaths),
+        },
+        {
+            id: 'document.archiveCompleted',
+            label: 'Archive completed todos',
+            icon: Archive,
+            when: ({ doc }) => getCompletedTodoPaths(doc, null).length > 0,
+            factory: ({ doc }) => archiveCompletedCommand(doc, null),
+        },
+        {
+            id: 'block.delete',
+            label: 'Delete block',
+            icon: Trash2,
+            keywords: ['remove'],
+            slash: true,
+            trash: true,
+            when: hasBlock,
+            factory: ({ doc, path }) => path && deleteBlockCommand(doc, getParentPath(path), path[path.length - 1]),
+        },
+    ],
+};
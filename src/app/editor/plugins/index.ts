@@ -0,0 +1,2 @@
+// Editor plugins barrel export
+export * from './corePlugin';
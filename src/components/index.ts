@@ -5,4 +5,5 @@ export * from './ui/label';
 export * from './ui/menubar';
 export * from './ui/separator';
 export * from './ui/switch';
-export * from './ui/dropdown-menu';
\ No newline at end of file
+export * from './ui/dropdown-menu';
+export * from './ui/textarea';
\ No newline at end of file